@@ -7,7 +7,10 @@ const options = {
   entryPoints: [
     "src/interceptor.ts",
     "src/content.ts",
+    "src/background.ts",
     "src/popup.ts",
+    "src/dashboard.ts",
+    "src/options.ts",
   ],
   outdir: "dist",
   bundle: true,
@@ -0,0 +1,107 @@
+// TimeGPT — Where timestamps go in a chat page's markup.
+// Each strategy knows one spot for the <time> element. Every provider
+// (see providers/) lists its own strategies, tried in order, so when a
+// site renames its CSS classes the next strategy takes over instead of
+// timestamps silently disappearing. The last one in each list is a
+// generic fallback that only needs the element itself.
+
+export interface MessageAnchorContext {
+  // The [data-message-id] element
+  messageEl: Element;
+  // The surrounding turn, when the page still wraps messages in one
+  turn: Element | null;
+  role: string | null;
+}
+
+export interface SidebarAnchorContext {
+  link: HTMLAnchorElement;
+}
+
+export interface AnchorStrategy<C> {
+  name: string;
+  // Fallbacks only run once the preferred spots had time to render,
+  // e.g. after a streaming reply should have finished
+  fallback?: boolean;
+  // Inserts `timeEl` and returns true, or false when this spot isn't there
+  insert(context: C, timeEl: HTMLElement): boolean;
+}
+
+// Puts user timestamps first and assistant timestamps last in a row
+function insertIntoRow(row: Element, context: MessageAnchorContext, timeEl: HTMLElement): void {
+  if (context.role === "user") {
+    timeEl.classList.add("timegpt-timestamp--user");
+    row.prepend(timeEl);
+  } else {
+    timeEl.classList.add("timegpt-timestamp--assistant");
+    row.appendChild(timeEl);
+  }
+}
+
+// A row of buttons below a message, found by `findRow`
+export function rowAnchor(
+  name: string,
+  findRow: (context: MessageAnchorContext) => Element | null | undefined
+): AnchorStrategy<MessageAnchorContext> {
+  return {
+    name,
+    insert(context, timeEl) {
+      const row = findRow(context);
+      if (!row) return false;
+      insertIntoRow(row, context, timeEl);
+      return true;
+    },
+  };
+}
+
+// --- Generic spots, shared by every provider ---
+
+export const AFTER_CONTENT_ANCHOR: AnchorStrategy<MessageAnchorContext> = {
+  name: "after-content",
+  fallback: true,
+  insert(context, timeEl) {
+    timeEl.classList.add("timegpt-timestamp--fallback");
+    context.messageEl.after(timeEl);
+    return true;
+  },
+};
+
+export const TRUNCATED_TEXT_ANCHOR: AnchorStrategy<SidebarAnchorContext> = {
+  // Whatever element truncates the title
+  name: "truncated-text",
+  insert({ link }, timeEl) {
+    const title = link.querySelector(".truncate, .line-clamp-1");
+    if (!title) return false;
+    title.after(timeEl);
+    return true;
+  },
+};
+
+export const LINK_ANCHOR: AnchorStrategy<SidebarAnchorContext> = {
+  name: "link",
+  fallback: true,
+  insert({ link }, timeEl) {
+    link.appendChild(timeEl);
+    return true;
+  },
+};
+
+// Returns the name of the strategy that placed `timeEl`, or null
+export function insertWithStrategies<C>(
+  strategies: AnchorStrategy<C>[],
+  context: C,
+  timeEl: HTMLElement,
+  allowFallback: boolean
+): string | null {
+  for (const strategy of strategies) {
+    if (strategy.fallback && !allowFallback) continue;
+    if (strategy.insert(context, timeEl)) return strategy.name;
+  }
+  return null;
+}
+
+// How many placements went to fallback strategies, by strategy name
+export function countFallbacks<C>(strategies: AnchorStrategy<C>[], counts: Record<string, number>): number {
+  return strategies
+    .filter((strategy) => strategy.fallback)
+    .reduce((sum, strategy) => sum + (counts[strategy.name] ?? 0), 0);
+}
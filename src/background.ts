@@ -0,0 +1,105 @@
+// TimeGPT background service worker — forwards keyboard commands
+// (chrome://extensions/shortcuts) to the content script in the active tab,
+// which knows the page and the current settings, and applies cache and
+// usage history writes from all tabs one at a time.
+
+import type {
+  TimegptCommand,
+  TimegptCommandRequest,
+  TimegptStorageRequest,
+  TimegptStorageResponse,
+} from "./types";
+import { removeCache, writeCache } from "./cache";
+import { isObject } from "./diagnostics";
+import { setStorageWriteError } from "./storage-requests";
+import { removeUsageHistory, writeUsage } from "./usage";
+
+const COMMANDS: TimegptCommand[] = [
+  "cycle-format",
+  "toggle-message-timestamps",
+  "toggle-sidebar-timestamps",
+  "show-all-timestamps",
+];
+
+function isTimegptCommand(command: string): command is TimegptCommand {
+  return (COMMANDS as string[]).includes(command);
+}
+
+function sendCommand(tabId: number, command: TimegptCommand): void {
+  const request: TimegptCommandRequest = { type: "TIMEGPT_COMMAND", command };
+  chrome.tabs.sendMessage(tabId, request, () => {
+    // No content script: not a supported chat site
+    if (chrome.runtime.lastError && __DEBUG__) {
+      console.log(`[TimeGPT] Command "${command}" not delivered:`, chrome.runtime.lastError.message);
+    }
+  });
+}
+
+chrome.commands.onCommand.addListener((command, tab) => {
+  if (!isTimegptCommand(command)) return;
+  if (tab?.id != null) {
+    sendCommand(tab.id, command);
+    return;
+  }
+  chrome.tabs.query({ active: true, currentWindow: true }, ([active]) => {
+    if (active?.id != null) sendCommand(active.id, command);
+  });
+});
+
+// Read-merge-write cycles from several tabs would lose each other's
+// entries if they overlapped, so every storage write is chained
+let writeQueue: Promise<void> = Promise.resolve();
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function enqueue(write: () => Promise<void>): Promise<void> {
+  const result = writeQueue.then(write);
+  writeQueue = result
+    .then(
+      () => setStorageWriteError(null),
+      (err) => {
+        console.warn("[TimeGPT] Storage write failed:", err);
+        return setStorageWriteError(errorMessage(err));
+      }
+    )
+    // Session storage failing too mustn't stall the queue
+    .catch(() => {});
+  return result;
+}
+
+function applyStorageRequest(request: TimegptStorageRequest): Promise<void> {
+  switch (request.type) {
+    case "TIMEGPT_CACHE_WRITE":
+      return writeCache(request);
+    case "TIMEGPT_CACHE_CLEAR":
+      return removeCache();
+    case "TIMEGPT_USAGE_WRITE":
+      return writeUsage(request);
+    case "TIMEGPT_USAGE_CLEAR":
+      return removeUsageHistory();
+  }
+}
+
+const STORAGE_REQUESTS: Array<TimegptStorageRequest["type"]> = [
+  "TIMEGPT_CACHE_WRITE",
+  "TIMEGPT_CACHE_CLEAR",
+  "TIMEGPT_USAGE_WRITE",
+  "TIMEGPT_USAGE_CLEAR",
+];
+
+function isStorageRequest(message: unknown): message is TimegptStorageRequest {
+  return isObject(message) && (STORAGE_REQUESTS as unknown[]).includes(message.type);
+}
+
+chrome.runtime.onMessage.addListener((message: unknown, _sender, sendResponse) => {
+  if (!isStorageRequest(message)) return false;
+  const respond = (response: TimegptStorageResponse) => sendResponse(response);
+  enqueue(() => applyStorageRequest(message)).then(
+    () => respond({ ok: true }),
+    (err) => respond({ ok: false, error: errorMessage(err) })
+  );
+  // Keep the channel open for the async response
+  return true;
+});
@@ -0,0 +1,213 @@
+// TimeGPT — Persistent timestamp cache backed by chrome.storage.local.
+// Lets the content script render timestamps immediately on reload, even when
+// ChatGPT serves cached data and the interceptor never sees a fresh fetch.
+
+import type {
+  MessageTimestamp,
+  ConversationTimestamp,
+  CachedEntry,
+  TimestampCache,
+  TimegptCacheWriteRequest,
+  TimegptCacheClearRequest,
+} from "./types";
+import { sendStorageRequest } from "./storage-requests";
+
+// Bump when the stored shape changes, and add a migration below.
+export const CACHE_SCHEMA_VERSION = 1;
+
+// Eviction limits — least recently cached or shown entries are dropped first.
+export const MAX_CACHED_MESSAGES = 20000;
+export const MAX_CACHED_CONVERSATIONS = 5000;
+
+const VERSION_KEY = "cacheVersion";
+const MESSAGES_KEY = "cachedMessages";
+const CONVERSATIONS_KEY = "cachedConversations";
+
+interface StoredCache {
+  [VERSION_KEY]?: number;
+  [MESSAGES_KEY]?: Record<string, CachedEntry<MessageTimestamp>>;
+  [CONVERSATIONS_KEY]?: Record<string, CachedEntry<ConversationTimestamp>>;
+}
+
+// Migrations keyed by the version they upgrade *from*.
+// Each one receives the raw stored data and returns the next version's shape.
+const MIGRATIONS: Record<number, (stored: StoredCache) => StoredCache> = {};
+
+function migrate(stored: StoredCache): StoredCache | null {
+  let version = stored[VERSION_KEY] ?? 0;
+  // Nothing stored yet — start from an empty cache
+  if (version === 0 && !stored[MESSAGES_KEY] && !stored[CONVERSATIONS_KEY]) {
+    return null;
+  }
+  while (version < CACHE_SCHEMA_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) return null;
+    stored = step(stored);
+    version++;
+  }
+  // Written by a newer build — we can't read it safely
+  if (version > CACHE_SCHEMA_VERSION) return null;
+  return stored;
+}
+
+export async function loadCache(): Promise<TimestampCache> {
+  const stored = (await chrome.storage.local.get([
+    VERSION_KEY,
+    MESSAGES_KEY,
+    CONVERSATIONS_KEY,
+  ])) as StoredCache;
+
+  const migrated = migrate(stored);
+  if (!migrated) {
+    if (stored[VERSION_KEY] !== CACHE_SCHEMA_VERSION) await clearCache();
+    return { messages: {}, conversations: {} };
+  }
+  if (stored[VERSION_KEY] !== CACHE_SCHEMA_VERSION) {
+    await chrome.storage.local.set({ ...migrated, [VERSION_KEY]: CACHE_SCHEMA_VERSION });
+  }
+
+  return {
+    messages: unwrap(migrated[MESSAGES_KEY]),
+    conversations: unwrap(migrated[CONVERSATIONS_KEY]),
+  };
+}
+
+// Goes through the background worker so a tab's queued write can't put
+// the old entries back
+export async function clearCache(): Promise<void> {
+  const request: TimegptCacheClearRequest = { type: "TIMEGPT_CACHE_CLEAR" };
+  await sendStorageRequest(request);
+}
+
+export async function removeCache(): Promise<void> {
+  await chrome.storage.local.remove([MESSAGES_KEY, CONVERSATIONS_KEY]);
+  await chrome.storage.local.set({ [VERSION_KEY]: CACHE_SCHEMA_VERSION });
+}
+
+export async function getCacheStats(): Promise<{ messages: number; conversations: number }> {
+  const stored = (await chrome.storage.local.get([
+    MESSAGES_KEY,
+    CONVERSATIONS_KEY,
+  ])) as StoredCache;
+  return {
+    messages: Object.keys(stored[MESSAGES_KEY] ?? {}).length,
+    conversations: Object.keys(stored[CONVERSATIONS_KEY] ?? {}).length,
+  };
+}
+
+// Batches writes so a burst of SSE events results in a single storage
+// write. Batches go to the background worker, which applies them one at a
+// time (see background.ts).
+export function createCacheWriter(delayMs = 2000) {
+  let pendingMessages: Record<string, MessageTimestamp> = {};
+  let pendingConversations: Record<string, ConversationTimestamp> = {};
+  let usedMessages = new Set<string>();
+  let usedConversations = new Set<string>();
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  function schedule(): void {
+    if (flushTimer !== null) return;
+    flushTimer = setTimeout(() => {
+      flushTimer = null;
+      // Also shown in the popup (see storage-requests.ts)
+      flush().catch((err) => console.warn("[TimeGPT] Cache write failed:", err));
+    }, delayMs);
+  }
+
+  async function flush(): Promise<void> {
+    const request: TimegptCacheWriteRequest = {
+      type: "TIMEGPT_CACHE_WRITE",
+      messages: pendingMessages,
+      conversations: pendingConversations,
+      usedMessages: [...usedMessages],
+      usedConversations: [...usedConversations],
+    };
+    pendingMessages = {};
+    pendingConversations = {};
+    usedMessages = new Set();
+    usedConversations = new Set();
+    await sendStorageRequest(request);
+  }
+
+  return {
+    putMessages(timestamps: Record<string, MessageTimestamp>): void {
+      Object.assign(pendingMessages, timestamps);
+      schedule();
+    },
+    putConversations(conversations: Record<string, ConversationTimestamp>): void {
+      Object.assign(pendingConversations, conversations);
+      schedule();
+    },
+    // Marks entries as recently used when they're shown on the page
+    useMessages(ids: Iterable<string>): void {
+      for (const id of ids) usedMessages.add(id);
+      schedule();
+    },
+    useConversations(ids: Iterable<string>): void {
+      for (const id of ids) usedConversations.add(id);
+      schedule();
+    },
+  };
+}
+
+// Merges a tab's batch into the stored cache. Only the background worker
+// calls this, one batch at a time.
+export async function writeCache(request: TimegptCacheWriteRequest): Promise<void> {
+  const stored = (await chrome.storage.local.get([
+    MESSAGES_KEY,
+    CONVERSATIONS_KEY,
+  ])) as StoredCache;
+  const now = Date.now();
+
+  await chrome.storage.local.set({
+    [VERSION_KEY]: CACHE_SCHEMA_VERSION,
+    [MESSAGES_KEY]: merge(
+      stored[MESSAGES_KEY],
+      request.messages,
+      request.usedMessages,
+      now,
+      MAX_CACHED_MESSAGES
+    ),
+    [CONVERSATIONS_KEY]: merge(
+      stored[CONVERSATIONS_KEY],
+      request.conversations,
+      request.usedConversations,
+      now,
+      MAX_CACHED_CONVERSATIONS
+    ),
+  });
+}
+
+function merge<T>(
+  existing: Record<string, CachedEntry<T>> | undefined,
+  incoming: Record<string, T>,
+  used: string[],
+  now: number,
+  limit: number
+): Record<string, CachedEntry<T>> {
+  const result: Record<string, CachedEntry<T>> = { ...existing };
+  for (const id of used) {
+    if (result[id]) result[id] = { ...result[id], cachedAt: now };
+  }
+  for (const [id, value] of Object.entries(incoming)) {
+    result[id] = { value, cachedAt: now };
+  }
+
+  const ids = Object.keys(result);
+  if (ids.length <= limit) return result;
+
+  // Evict the least recently cached or shown entries
+  ids.sort((a, b) => result[a].cachedAt - result[b].cachedAt);
+  for (const id of ids.slice(0, ids.length - limit)) {
+    delete result[id];
+  }
+  return result;
+}
+
+function unwrap<T>(entries: Record<string, CachedEntry<T>> | undefined): Record<string, T> {
+  const result: Record<string, T> = {};
+  for (const [id, entry] of Object.entries(entries ?? {})) {
+    result[id] = entry.value;
+  }
+  return result;
+}
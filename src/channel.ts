@@ -0,0 +1,116 @@
+// TimeGPT — Private channel between the interceptor (MAIN world) and the
+// content script (ISOLATED world).
+//
+// Both scripts run at document_start, before any page script. The content
+// script creates a MessageChannel and posts one end to the window in a
+// TIMEGPT_CONNECT handshake. The interceptor's listener was registered
+// first, so it claims the port and stops the event before any page
+// listener can see it. From then on all traffic goes over the port, which
+// page scripts can neither read nor spoof. Any other TIMEGPT_* message on
+// the window is rejected.
+
+import type {
+  TimegptConnectMessage,
+  TimegptContentMessage,
+  TimegptInterceptorMessage,
+} from "./types";
+
+const CONNECT_TYPE: TimegptConnectMessage["type"] = "TIMEGPT_CONNECT";
+
+export interface ChannelEnd<Send, Receive> {
+  send(message: Send): void;
+  onMessage(handler: (message: Receive) => void): void;
+}
+
+function isTimegptMessage(data: unknown): data is { type: string } {
+  return typeof (data as { type?: unknown })?.type === "string" &&
+    (data as { type: string }).type.startsWith("TIMEGPT_");
+}
+
+// Logs (in debug builds) TIMEGPT_* messages that arrive over the window
+// instead of the private port — spoofed by a page script, or left over
+// from an older build.
+function rejectWindowMessage(side: string, event: MessageEvent): void {
+  if (__DEBUG__) {
+    console.warn(`[TimeGPT] ${side} rejected unauthenticated ${event.data.type} message`, event.origin);
+  }
+}
+
+// Interceptor side. Accepts exactly one handshake; messages sent before it
+// completes are dropped (the outbox keeps them and replays on drain).
+export function acceptContentChannel(): ChannelEnd<TimegptInterceptorMessage, TimegptContentMessage> {
+  let port: MessagePort | null = null;
+  let handler: ((message: TimegptContentMessage) => void) | null = null;
+
+  window.addEventListener(
+    "message",
+    (event: MessageEvent) => {
+      if (!isTimegptMessage(event.data)) return;
+
+      const isHandshake =
+        event.data.type === CONNECT_TYPE &&
+        event.source === window &&
+        event.origin === window.location.origin &&
+        event.ports.length === 1;
+
+      if (!isHandshake || port) {
+        rejectWindowMessage("Interceptor", event);
+        return;
+      }
+
+      // Hide the port from every listener registered after ours
+      event.stopImmediatePropagation();
+      port = event.ports[0];
+      port.onmessage = (e: MessageEvent) => {
+        if (isTimegptMessage(e.data)) handler?.(e.data as TimegptContentMessage);
+      };
+      if (__DEBUG__) console.log("[TimeGPT] Channel to content script established");
+    },
+    // Capture so we run before page listeners on the window itself
+    true
+  );
+
+  return {
+    send(message) {
+      port?.postMessage(message);
+    },
+    onMessage(fn) {
+      handler = fn;
+    },
+  };
+}
+
+// Content script side. Messages from the interceptor queue in the port
+// until `start()` is called, so the DOM can be ready before they are
+// handled.
+export function openInterceptorChannel(): ChannelEnd<TimegptContentMessage, TimegptInterceptorMessage> & {
+  start(): void;
+} {
+  const channel = new MessageChannel();
+  const port = channel.port1;
+  let handler: ((message: TimegptInterceptorMessage) => void) | null = null;
+
+  port.addEventListener("message", (e: MessageEvent) => {
+    if (isTimegptMessage(e.data)) handler?.(e.data as TimegptInterceptorMessage);
+  });
+
+  window.addEventListener("message", (event: MessageEvent) => {
+    if (!isTimegptMessage(event.data) || event.data.type === CONNECT_TYPE) return;
+    rejectWindowMessage("Content script", event);
+  });
+
+  const handshake: TimegptConnectMessage = { type: CONNECT_TYPE };
+  window.postMessage(handshake, window.location.origin, [channel.port2]);
+
+  return {
+    send(message) {
+      port.postMessage(message);
+    },
+    onMessage(fn) {
+      handler = fn;
+    },
+    start() {
+      port.start();
+    },
+  };
+}
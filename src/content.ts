@@ -1,383 +1,1348 @@
-// TimeGPT Content Script — Runs in ISOLATED world at document_idle.
-// Listens for timestamp data from the interceptor (MAIN world)
-// and renders timestamps below ChatGPT messages and in the sidebar.
+// TimeGPT Content Script — Runs in ISOLATED world at document_start.
+// Receives timestamp data from the interceptor (MAIN world) over a private
+// channel and renders timestamps below chat messages and in the sidebar,
+// using the provider adapter for the current site.
 
 import type {
   MessageTimestamp,
+  MessageTiming,
   ConversationTimestamp,
   TimestampFormat,
-  TimegptTimestampsMessage,
-  TimegptConversationsMessage,
+  SidebarTimeField,
+  SecondaryZoneDisplay,
+  TimegptSettings,
+  TimegptCommand,
+  CopyFormat,
+  TimegptInterceptorMessage,
+  TimegptExportRequest,
+  TimegptExportResponse,
+  TimegptStatsResponse,
+  TimegptHealthResponse,
+  TimegptDiagnosticsResponse,
+  PlacementHealth,
+  CaptureDiagnostics,
+  TimegptTabRequest,
+  ConversationDetail,
 } from "./types";
-
-const DEFAULTS = {
-  timestampFormat: "relative" as TimestampFormat,
-  showMessageTimestamps: true,
-  showSidebarTimestamps: true,
-};
+import { openInterceptorChannel } from "./channel";
+import { loadCache, createCacheWriter } from "./cache";
+import { buildExport } from "./export";
+import { computeStats } from "./stats";
+import { createUsageRecorder } from "./usage";
+import { createSidebarFilter } from "./sidebar-filter";
+import { createTimeline } from "./timeline";
+import { createDayJump } from "./day-jump";
+import { createToast } from "./toast";
+import { createTimestampMenu } from "./timestamp-menu";
+import { formatCitation, formatCopiedTime, formatMessageWithTime } from "./copy";
+import { createDeepLinks, messageLink } from "./deep-link";
+import { createDomIndex } from "./dom-index";
+import { countFallbacks, insertWithStrategies } from "./anchors";
+import { providerForHost } from "./providers";
+import { createRelativeRefresh } from "./relative-refresh";
+import {
+  DEFAULT_SETTINGS,
+  loadSettings,
+  nextTimestampFormat,
+  normalizeSettings,
+  sameSettings,
+  timestampFormatLabel,
+} from "./settings";
+import {
+  calendarDay,
+  formatTimestamp as formatWith,
+  formatDuration,
+  formatElapsed,
+  formatFull,
+  formatParts,
+  isoToUnix,
+  nextRelativeChange,
+  zoneAbbreviation,
+} from "./format";
+import type { ZoneOptions } from "./format";
 
 (function () {
   "use strict";
 
-  if (__DEBUG__) console.log("[TimeGPT] Content script loaded");
+  const provider = providerForHost(window.location.hostname);
+  if (!provider) return;
+  // Selectors, IDs and anchors for this site's markup
+  const dom = provider.dom;
+  // e.g. "ChatGPT", for citations
+  const siteName = provider.name;
+
+  if (__DEBUG__) console.log(`[TimeGPT] Content script loaded (${provider.name})`);
+
+  // Open the channel right away, before any page script can run; the
+  // DOM work below waits for DOMContentLoaded.
+  const channel = openInterceptorChannel();
+  let domReady = false;
 
   // --- Storage ---
   const timestampMap = new Map<string, MessageTimestamp>();
+  // parentId → child message IDs, to find edited/regenerated versions
+  const childrenIndex = new Map<string, Set<string>>();
   const conversationMap = new Map<string, ConversationTimestamp>();
+  // Conversation titles + transcripts for export (memory only, never cached)
+  const detailMap = new Map<string, ConversationDetail>();
+  // Latest capture counters from the interceptor, for the popup
+  let captureDiagnostics: CaptureDiagnostics | null = null;
+  const cacheWriter = createCacheWriter();
+  const usageRecorder = createUsageRecorder();
+  const sidebarFilter = createSidebarFilter((id) => conversationMap.get(id), dom, primaryZone);
+  const timeline = createTimeline({
+    dom,
+    getTimestamp: (id) => timestampMap.get(id),
+    messageIds: () => domIndex.messageIds(),
+    messageElements: (id) => domIndex.messageElements(id),
+    formatTime: (unix) => formatFull(new Date(unix * 1000), primaryZone()),
+    dayOf: (unix) => ({
+      key: dayKey(unix),
+      label: formatParts(new Date(unix * 1000), { month: "short", day: "numeric" }, primaryZone()),
+    }),
+    onJump: highlightTurn,
+  });
+  const dayJump = createDayJump({
+    dom,
+    getTimestamp: (id) => timestampMap.get(id),
+    dayKey,
+    onJump: highlightTurn,
+  });
+  const toast = createToast();
+
+  // --- Persistent cache ---
+  // Seed the maps from chrome.storage.local so timestamps show up before
+  // (or without) a fresh API fetch. Live data from the interceptor wins.
+  loadCache()
+    .then(({ messages, conversations }) => {
+      for (const [id, info] of Object.entries(messages)) {
+        if (!timestampMap.has(id)) setMessageTimestamp(id, info);
+      }
+      for (const [id, info] of Object.entries(conversations)) {
+        if (!conversationMap.has(id)) conversationMap.set(id, info);
+      }
+      if (__DEBUG__) console.log(
+        `[TimeGPT] Loaded cache: ${timestampMap.size} messages, ${conversationMap.size} conversations`
+      );
+      applyAll();
+    })
+    .catch((err) => {
+      if (__DEBUG__) console.warn("[TimeGPT] Failed to load cache:", err);
+    });
 
   // --- User preferences ---
-  let currentFormat: TimestampFormat = DEFAULTS.timestampFormat;
-  let showMessages: boolean = DEFAULTS.showMessageTimestamps;
-  let showSidebar: boolean = DEFAULTS.showSidebarTimestamps;
-
-  chrome.storage.sync.get(DEFAULTS, (result) => {
-    currentFormat = result.timestampFormat as TimestampFormat;
-    showMessages = result.showMessageTimestamps as boolean;
-    showSidebar = result.showSidebarTimestamps as boolean;
-    if (__DEBUG__) console.log("[TimeGPT] Settings:", { currentFormat, showMessages, showSidebar });
+  let settings: TimegptSettings = DEFAULT_SETTINGS;
+  let currentFormat: TimestampFormat = settings.timestampFormat;
+  let relativeThresholdDays: number = settings.relativeThresholdDays;
+  let showMessages: boolean = settings.showMessageTimestamps;
+  let showSidebar: boolean = settings.showSidebarTimestamps;
+  let showTiming: boolean = settings.showResponseTiming;
+  let showFilter: boolean = settings.showSidebarFilter;
+  let showTimeline: boolean = settings.showTimeline;
+  let showModel: boolean = settings.showModel;
+  let showGaps: boolean = settings.showTimeGaps;
+  let gapHours: number = settings.timeGapHours;
+  let sidebarField: SidebarTimeField = settings.sidebarTimeField;
+  let messagePattern: string = settings.customMessagePattern;
+  let sidebarPattern: string = settings.customSidebarPattern;
+  // Empty strings mean "browser default" / "none"
+  let locale: string = settings.locale;
+  let timeZone: string = settings.timeZone;
+  let secondaryTimeZone: string = settings.secondaryTimeZone;
+  let secondaryDisplay: SecondaryZoneDisplay = settings.secondaryTimeZoneDisplay;
+  let copyFormat: CopyFormat = settings.copyFormat;
+
+  function useSettings(next: TimegptSettings): void {
+    settings = next;
+    currentFormat = next.timestampFormat;
+    relativeThresholdDays = next.relativeThresholdDays;
+    showMessages = next.showMessageTimestamps;
+    showSidebar = next.showSidebarTimestamps;
+    showTiming = next.showResponseTiming;
+    showFilter = next.showSidebarFilter;
+    showTimeline = next.showTimeline;
+    showModel = next.showModel;
+    showGaps = next.showTimeGaps;
+    gapHours = next.timeGapHours;
+    sidebarField = next.sidebarTimeField;
+    messagePattern = next.customMessagePattern;
+    sidebarPattern = next.customSidebarPattern;
+    locale = next.locale;
+    timeZone = next.timeZone;
+    secondaryTimeZone = next.secondaryTimeZone;
+    secondaryDisplay = next.secondaryTimeZoneDisplay;
+    copyFormat = next.copyFormat;
+  }
+
+  loadSettings().then((loaded) => {
+    useSettings(loaded);
+    if (__DEBUG__) console.log("[TimeGPT] Settings:", loaded);
     applyAll();
   });
 
-  chrome.storage.onChanged.addListener((changes) => {
-    if (changes.timestampFormat) {
-      currentFormat = changes.timestampFormat.newValue as TimestampFormat;
-    }
-    if (changes.showMessageTimestamps) {
-      showMessages = changes.showMessageTimestamps.newValue as boolean;
-      if (!showMessages) removeMessageTimestamps();
-    }
-    if (changes.showSidebarTimestamps) {
-      showSidebar = changes.showSidebarTimestamps.newValue as boolean;
-      if (!showSidebar) removeSidebarTimestamps();
+  // Changes from the popup, the options page or an applied profile. They
+  // go through the same validation as stored settings.
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName !== "sync") return;
+    const updates: Record<string, unknown> = {};
+    for (const [key, change] of Object.entries(changes)) updates[key] = change.newValue;
+    const next = normalizeSettings({ ...settings, ...updates });
+    if (sameSettings(settings, next)) return;
+
+    if (showMessages && !next.showMessageTimestamps) {
+      removeMessageTimestamps();
+      removeTimeGaps();
     }
+    if (showSidebar && !next.showSidebarTimestamps) removeSidebarTimestamps();
+    if (showTimeline && !next.showTimeline) timeline.remove();
+    if (showFilter && !next.showSidebarFilter) sidebarFilter.remove();
+    if (showGaps && !next.showTimeGaps) removeTimeGaps();
+    useSettings(next);
+    // Day labels and tooltips depend on the time zone and locale
+    timeline.invalidate();
     applyAll();
   });
 
-  // --- Refresh relative timestamps periodically ---
-  let refreshTimer: ReturnType<typeof setInterval> | null = null;
-
-  function startRefreshTimer(): void {
-    if (refreshTimer !== null) {
-      clearInterval(refreshTimer);
-      refreshTimer = null;
-    }
-    if (currentFormat === "relative") {
-      refreshTimer = setInterval(refreshAllTimestamps, 15000);
-    }
-  }
+  // --- Keep relative timestamps current ---
+  // Each render registers the times an element shows; only elements whose
+  // text would change get re-rendered, right when it changes
+  const relativeRefresh = createRelativeRefresh({
+    nextChange: (unix) =>
+      currentFormat === "relative" ? nextRelativeChange(unix, relativeThresholdDays) : null,
+    refresh: (el) => {
+      const messageId = el.dataset.timegptMessageId;
+      const conversationId = el.dataset.timegptConversationId;
+      const message = messageId ? timestampMap.get(messageId) : undefined;
+      const conversation = conversationId ? conversationMap.get(conversationId) : undefined;
+      if (message) renderMessageTimestamp(el, message);
+      else if (conversation) renderSidebarTimestamp(el, conversation);
+    },
+  });
 
   function applyAll(): void {
-    startRefreshTimer();
+    if (!domReady) return;
     refreshAllTimestamps();
     if (showMessages) applyMessageTimestamps();
     if (showSidebar) applySidebarTimestamps();
+    if (showFilter) sidebarFilter.apply();
+    if (showTimeline) timeline.update();
   }
 
-  // Retry applying message timestamps for streaming messages.
-  // The toolbar (where we insert timestamps) may not exist yet when
-  // the timestamp data first arrives from the SSE stream.
+  // --- Incremental, batched DOM updates ---
+  // Message and sidebar elements are indexed as they are added (see
+  // dom-index.ts). New data or new elements only queue the IDs involved,
+  // and one animation frame applies everything queued.
+  const domIndex = createDomIndex(dom);
+  // Injected <time> elements by message / conversation ID
+  const messageTimeEls = new Map<string, Set<HTMLElement>>();
+  const sidebarTimeEls = new Map<string, Set<HTMLElement>>();
+
+  // Messages waiting for a timestamp → timed retries so far. A streaming
+  // reply only gets its toolbar once it finishes, so each message is
+  // retried on its own budget.
+  const pendingMessages = new Map<string, number>();
+  const pendingConversations = new Set<string>();
+  const MAX_RETRIES = 10;
+  const RETRY_DELAY_MS = 500;
+
+  let frame: number | null = null;
   let retryTimer: ReturnType<typeof setTimeout> | null = null;
-  let retryCount = 0;
+  let retryDue = false;
+  let messagesChanged = false;
+  let sidebarChanged = false;
+  let needsPrune = false;
+  // Messages queued since the last flush; the separators and timeline
+  // only need updating when this isn't empty or elements were removed
+  const changedMessages = new Set<string>();
+
+  // How many timestamps each anchor strategy placed on this page, to
+  // tell when the site's layout changed (see anchors.ts)
+  const messageStrategyCounts: Record<string, number> = {};
+  const sidebarStrategyCounts: Record<string, number> = {};
+
+  function queueMessages(ids: Iterable<string>): void {
+    for (const id of ids) {
+      changedMessages.add(id);
+      if (timestampMap.has(id) && !pendingMessages.has(id)) pendingMessages.set(id, 0);
+    }
+    messagesChanged = true;
+    scheduleFlush();
+  }
+
+  function queueConversations(ids: Iterable<string>): void {
+    for (const id of ids) {
+      if (conversationMap.has(id)) pendingConversations.add(id);
+    }
+    sidebarChanged = true;
+    scheduleFlush();
+  }
 
-  function scheduleRetries(): void {
-    retryCount = 0;
-    tryApply();
+  function scheduleFlush(): void {
+    if (frame !== null || !domReady) return;
+    frame = requestAnimationFrame(flush);
   }
 
-  function tryApply(): void {
-    if (retryTimer !== null) clearTimeout(retryTimer);
-    retryCount++;
-    if (retryCount > 10) return;
+  function flush(): void {
+    frame = null;
+
+    // Removed turns may leave separators behind or close gaps
+    const pruned = needsPrune;
+    if (needsPrune) {
+      needsPrune = false;
+      domIndex.prune();
+    }
+
+    if (messagesChanged || pruned) {
+      messagesChanged = false;
+      const layoutChanged = pruned || changedMessages.size > 0;
+      if (showMessages) {
+        placePendingMessages();
+        if (showGaps && layoutChanged) applyTimeGaps(pruned ? null : changedMessages);
+      } else {
+        pendingMessages.clear();
+      }
+      if (showTimeline && layoutChanged) timeline.update();
+      changedMessages.clear();
+      deepLinks.update();
+    }
+
+    if (sidebarChanged) {
+      sidebarChanged = false;
+      if (showSidebar) placePendingConversations();
+      pendingConversations.clear();
+      if (showFilter) sidebarFilter.apply();
+    }
+  }
+
+  function scheduleRetry(): void {
+    if (retryTimer !== null) return;
     retryTimer = setTimeout(() => {
-      if (showMessages) applyMessageTimestamps();
-      // Keep retrying if there are still unapplied timestamps
-      if (hasUnappliedTimestamps()) tryApply();
-    }, 500);
+      retryTimer = null;
+      retryDue = true;
+      messagesChanged = true;
+      scheduleFlush();
+    }, RETRY_DELAY_MS);
   }
 
-  function hasUnappliedTimestamps(): boolean {
-    for (const [id] of timestampMap) {
-      const el = document.querySelector(`[data-message-id="${id}"]`);
-      if (!el) continue;
-      const article = el.closest("article");
-      if (article && !article.querySelector(".timegpt-timestamp")) return true;
+  function hasTimeEl(map: Map<string, Set<HTMLElement>>, id: string): boolean {
+    for (const el of map.get(id) ?? []) {
+      if (el.isConnected) return true;
     }
     return false;
   }
 
+  function hasMessageTimestamp(id: string): boolean {
+    return hasTimeEl(messageTimeEls, id);
+  }
+
+  function addTimeEl(map: Map<string, Set<HTMLElement>>, id: string, el: HTMLElement): void {
+    let set = map.get(id);
+    if (!set) {
+      set = new Set();
+      map.set(id, set);
+    }
+    set.add(el);
+  }
+
+  // Calls `render` for each injected element still on the page and forgets
+  // the ones React has removed
+  function forEachTimeEl(
+    map: Map<string, Set<HTMLElement>>,
+    id: string,
+    render: (el: HTMLElement) => void
+  ): void {
+    const set = map.get(id);
+    if (!set) return;
+    for (const el of set) {
+      if (el.isConnected) render(el);
+      else set.delete(el);
+    }
+    if (set.size === 0) map.delete(id);
+  }
+
+  function setMessageTimestamp(id: string, info: MessageTimestamp): void {
+    timestampMap.set(id, info);
+    if (!info.parentId) return;
+    let children = childrenIndex.get(info.parentId);
+    if (!children) {
+      children = new Set();
+      childrenIndex.set(info.parentId, children);
+    }
+    children.add(id);
+  }
+
+  // Other versions of a message (edits or regenerations), oldest first.
+  // Returns an empty list when the message has no siblings.
+  function messageVersions(id: string): Array<[string, MessageTimestamp]> {
+    const info = timestampMap.get(id);
+    if (!info?.parentId) return [];
+    const versions: Array<[string, MessageTimestamp]> = [];
+    for (const siblingId of childrenIndex.get(info.parentId) ?? []) {
+      const sibling = timestampMap.get(siblingId);
+      if (sibling && sibling.role === info.role) versions.push([siblingId, sibling]);
+    }
+    if (versions.length < 2) return [];
+    return versions.sort((a, b) => a[1].createTime - b[1].createTime);
+  }
+
+  // Briefly outlines a message after jumping to it
+  function highlightTurn(turn: Element): void {
+    turn.classList.remove("timegpt-highlight");
+    // Restart the animation if the same turn is highlighted twice
+    void (turn as HTMLElement).offsetWidth;
+    turn.classList.add("timegpt-highlight");
+    setTimeout(() => turn.classList.remove("timegpt-highlight"), 2000);
+  }
+
+  // The message element of a turn (which may be the turn itself)
+  function messageInTurn(turn: Element): Element | null {
+    return turn.matches(dom.messageSelector) ? turn : turn.querySelector(dom.messageSelector);
+  }
+
+  // For sites without message IDs in their markup: tags the current
+  // conversation's messages from its visible branch, then indexes them
+  function labelMessages(): string[] {
+    if (!dom.labelMessages) return [];
+    const convId = currentConversationId();
+    const detail = convId ? detailMap.get(convId) : undefined;
+    if (!detail) return [];
+    if (!dom.labelMessages(document, detail.messages)) return [];
+    return domIndex.scan(document.body).messageIds;
+  }
+
   function removeMessageTimestamps(): void {
     document.querySelectorAll(".timegpt-timestamp").forEach((el) => el.remove());
+    messageTimeEls.clear();
+    pendingMessages.clear();
+  }
+
+  function removeTimeGaps(): void {
+    document.querySelectorAll(".timegpt-gap").forEach((el) => el.remove());
+    gapEls.clear();
   }
 
   function removeSidebarTimestamps(): void {
     document.querySelectorAll(".timegpt-sidebar-time").forEach((el) => el.remove());
+    sidebarTimeEls.clear();
+    pendingConversations.clear();
   }
 
-  // --- Pick up any data the interceptor already captured ---
-  // Send a drain request to the interceptor (MAIN world) via postMessage.
-  // The interceptor listens for this and re-posts any buffered data.
-  function requestDrain(): void {
-    window.postMessage({ type: "TIMEGPT_DRAIN_REQUEST" }, window.location.origin);
-  }
+  // --- Acknowledge received batches so the interceptor can free them ---
+  // Batches arrive in order, so acknowledging the highest sequence number
+  // covers everything before it. Coalesced to one ack per burst.
+  let ackedSeq = 0;
+  let receivedSeq = 0;
+  let ackTimer: ReturnType<typeof setTimeout> | null = null;
 
-  requestDrain();
-  setTimeout(requestDrain, 1000);
-  setTimeout(requestDrain, 3000);
+  function acknowledge(seq: number): void {
+    receivedSeq = Math.max(receivedSeq, seq);
+    if (ackTimer !== null) return;
+    ackTimer = setTimeout(() => {
+      ackTimer = null;
+      if (receivedSeq <= ackedSeq) return;
+      ackedSeq = receivedSeq;
+      channel.send({ type: "TIMEGPT_ACK", seq: ackedSeq });
+    }, 500);
+  }
 
   // --- Listen for data from the interceptor ---
-  window.addEventListener("message", (event: MessageEvent) => {
-    if (event.origin !== window.location.origin) return;
-
-    const data = event.data as
-      | TimegptTimestampsMessage
-      | TimegptConversationsMessage
-      | { type: string };
+  channel.onMessage((data: TimegptInterceptorMessage) => {
+    if (data.type === "TIMEGPT_DIAGNOSTICS") {
+      captureDiagnostics = data.diagnostics;
+      return;
+    }
+    acknowledge(data.seq);
 
-    if (data?.type === "TIMEGPT_TIMESTAMPS") {
-      const { timestamps } = data as TimegptTimestampsMessage;
-      let newCount = 0;
+    if (data.type === "TIMEGPT_TIMESTAMPS") {
+      const { timestamps } = data;
+      const merged: Record<string, MessageTimestamp> = {};
+      const affectedParents = new Set<string>();
+      const newIds: string[] = [];
       for (const [id, info] of Object.entries(timestamps)) {
-        if (!timestampMap.has(id)) newCount++;
-        timestampMap.set(id, info);
+        const existing = timestampMap.get(id);
+        if (!existing) newIds.push(id);
+        // Keep response timing captured earlier (or cached) when a
+        // conversation refetch delivers the same message without it
+        const timing = info.timing ?? existing?.timing;
+        const parentId = info.parentId !== undefined ? info.parentId : existing?.parentId;
+        const model = info.model ?? existing?.model;
+        merged[id] = { ...info, timing, parentId, model };
+        setMessageTimestamp(id, merged[id]);
+        if (existing && (info.timing || (info.model && !existing.model))) refreshMessageTimestamp(id);
+        if (parentId && !existing?.parentId) affectedParents.add(parentId);
+      }
+      cacheWriter.putMessages(merged);
+      usageRecorder.recordMessages(timestamps);
+      // A new version changes the "version N of M" label of its siblings
+      for (const parentId of affectedParents) {
+        for (const siblingId of childrenIndex.get(parentId) ?? []) {
+          refreshMessageTimestamp(siblingId);
+        }
       }
-      if (newCount > 0) {
+      if (newIds.length > 0) {
         if (__DEBUG__) console.log(
-          `[TimeGPT] Received ${newCount} message timestamps (total: ${timestampMap.size})`
+          `[TimeGPT] Received ${newIds.length} message timestamps (total: ${timestampMap.size})`
         );
-        if (showMessages) {
-          applyMessageTimestamps();
-          // Streaming messages: the toolbar may not exist yet when the
-          // timestamp data arrives. Retry a few times to catch it.
-          scheduleRetries();
-        }
+        // Only messages already on the page are placed now; the rest are
+        // queued when their elements are added
+        queueMessages(newIds.filter((id) => domIndex.messageElements(id).length > 0));
       }
     }
 
-    if (data?.type === "TIMEGPT_CONVERSATIONS") {
-      const { conversations } = data as TimegptConversationsMessage;
+    if (data.type === "TIMEGPT_CONVERSATIONS") {
+      const { conversations } = data;
+      cacheWriter.putConversations(conversations);
+      usageRecorder.recordConversations(conversations);
       let newCount = 0;
       for (const [id, info] of Object.entries(conversations)) {
-        if (!conversationMap.has(id)) newCount++;
+        const existing = conversationMap.get(id);
         conversationMap.set(id, info);
+        if (!existing) {
+          newCount++;
+        } else if (existing.updateTime !== info.updateTime) {
+          // Revived conversation — update the already injected timestamp
+          refreshSidebarTimestamp(id);
+        }
       }
-      if (newCount > 0) {
-        if (__DEBUG__) console.log(
-          `[TimeGPT] Received ${newCount} conversation timestamps (total: ${conversationMap.size})`
-        );
-        if (showSidebar) applySidebarTimestamps();
+      if (newCount > 0 && __DEBUG__) console.log(
+        `[TimeGPT] Received ${newCount} conversation timestamps (total: ${conversationMap.size})`
+      );
+      // Newly known or updated conversations may also change the filter
+      queueConversations(Object.keys(conversations));
+    }
+
+    if (data.type === "TIMEGPT_CONVERSATION_DETAIL") {
+      const { detail } = data;
+      detailMap.set(detail.id, detail);
+      if (domReady) {
+        const labeled = labelMessages();
+        if (labeled.length > 0) queueMessages(labeled);
+        // A time link may have been waiting for the transcript
+        deepLinks.update();
       }
     }
   });
 
-  // --- Formatting ---
-  function formatTimestamp(unixSeconds: number): string {
-    const date = new Date(unixSeconds * 1000);
-
-    switch (currentFormat) {
-      case "relative":
-        return formatRelative(date);
-      case "datetime24":
-        return formatParts(date, {
-          year: "numeric",
-          month: "2-digit",
-          day: "2-digit",
-          hour: "2-digit",
-          minute: "2-digit",
-          hour12: false,
-        });
-      case "datetime12":
-        return formatParts(date, {
-          year: "numeric",
-          month: "short",
-          day: "numeric",
-          hour: "numeric",
-          minute: "2-digit",
-          hour12: true,
-        });
-      case "time24":
-        return formatParts(date, {
-          hour: "2-digit",
-          minute: "2-digit",
-          hour12: false,
-        });
-      case "time12":
-        return formatParts(date, {
-          hour: "numeric",
-          minute: "2-digit",
-          hour12: true,
-        });
-      case "iso":
-        return date.toISOString().slice(0, 19);
-      default:
-        return formatRelative(date);
+  // =============================================
+  // EXPORT, STATS, HEALTH + DIAGNOSTICS (requested by the popup)
+  // =============================================
+
+  function currentConversationId(): string | null {
+    return dom.conversationId(window.location.pathname);
+  }
+
+  // Combines the captured transcript with messages streamed since it was
+  // fetched, which only exist in the DOM (and in timestampMap).
+  function collectTranscript(convId: string): ConversationDetail | null {
+    const detail = detailMap.get(convId);
+    const messages = detail ? [...detail.messages] : [];
+    const known = new Set(messages.map((m) => m.id));
+
+    for (const el of document.querySelectorAll<HTMLElement>(dom.messageSelector)) {
+      const id = dom.messageId(el);
+      if (!id || known.has(id)) continue;
+      const text = el.innerText.trim();
+      if (!text) continue;
+      known.add(id);
+      messages.push({
+        id,
+        role: dom.role(el) ?? timestampMap.get(id)?.role ?? null,
+        createTime: timestampMap.get(id)?.createTime ?? null,
+        text,
+      });
     }
+
+    if (messages.length === 0) return null;
+    const conversation = conversationMap.get(convId);
+    return {
+      id: convId,
+      title: detail?.title ?? conversation?.title ?? null,
+      createTime: detail?.createTime ?? (conversation ? isoToUnix(conversation.createTime) : null),
+      updateTime: detail?.updateTime ?? (conversation?.updateTime ? isoToUnix(conversation.updateTime) : null),
+      messages,
+    };
   }
 
-  function isoToUnix(isoString: string): number {
-    return new Date(isoString).getTime() / 1000;
+  function downloadFile(filename: string, mimeType: string, content: string): void {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    link.style.display = "none";
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
   }
 
-  function formatRelative(date: Date): string {
-    const diffMs = Date.now() - date.getTime();
-    const diffMin = Math.floor(diffMs / 60000);
+  function handleExport(message: TimegptExportRequest): TimegptExportResponse {
+    const convId = currentConversationId();
+    const transcript = convId ? collectTranscript(convId) : null;
+    if (!transcript) return { ok: false, error: "Open a conversation to export it." };
 
-    if (diffMin < 1) return "just now";
-    if (diffMin < 60) return `${diffMin}m ago`;
+    const file = buildExport(transcript, message.format, window.location.href);
+    downloadFile(file.filename, file.mimeType, file.content);
+    if (__DEBUG__) console.log(`[TimeGPT] Exported ${transcript.messages.length} messages as ${file.filename}`);
+    return { ok: true, filename: file.filename, messageCount: transcript.messages.length };
+  }
 
-    const diffHours = Math.floor(diffMin / 60);
-    if (diffHours < 24) return `${diffHours}h ago`;
+  // Captured vs placed for what's on the page right now. A big gap means
+  // no anchor strategy found its spot, i.e. the site's layout changed.
+  function placementHealth(
+    ids: string[],
+    hasData: (id: string) => boolean,
+    isOnPage: (id: string) => boolean,
+    isPlaced: (id: string) => boolean,
+    pending: number,
+    strategies: Record<string, number>,
+    fallbacks: number
+  ): PlacementHealth {
+    let captured = 0;
+    let placed = 0;
+    for (const id of ids) {
+      if (!hasData(id) || !isOnPage(id)) continue;
+      captured++;
+      if (isPlaced(id)) placed++;
+    }
+    return { captured, placed, pending, strategies: { ...strategies }, fallbacks };
+  }
 
-    const diffDays = Math.floor(diffHours / 24);
-    if (diffDays < 30) return `${diffDays}d ago`;
+  function handleHealth(): TimegptHealthResponse {
+    return {
+      ok: true,
+      enabled: { messages: showMessages, sidebar: showSidebar },
+      messages: placementHealth(
+        domIndex.messageIds(),
+        (id) => timestampMap.has(id),
+        (id) => domIndex.messageElements(id).length > 0,
+        hasMessageTimestamp,
+        pendingMessages.size,
+        messageStrategyCounts,
+        countFallbacks(dom.messageAnchors, messageStrategyCounts)
+      ),
+      sidebar: placementHealth(
+        domIndex.conversationIds(),
+        (id) => conversationMap.has(id),
+        (id) => domIndex.sidebarLinks(id).length > 0,
+        (id) => hasTimeEl(sidebarTimeEls, id),
+        pendingConversations.size,
+        sidebarStrategyCounts,
+        countFallbacks(dom.sidebarAnchors, sidebarStrategyCounts)
+      ),
+    };
+  }
 
-    return new Intl.DateTimeFormat(undefined, {
-      year: "numeric",
-      month: "short",
-      day: "numeric",
-      hour: "2-digit",
-      minute: "2-digit",
-    }).format(date);
+  function handleDiagnostics(): TimegptDiagnosticsResponse {
+    if (!captureDiagnostics) {
+      return { ok: false, error: "The interceptor hasn't reported yet — reload the page." };
+    }
+    return { ok: true, diagnostics: captureDiagnostics };
   }
 
-  function formatParts(
-    date: Date,
-    options: Intl.DateTimeFormatOptions
+  function handleStats(): TimegptStatsResponse {
+    const convId = currentConversationId();
+    const transcript = convId ? collectTranscript(convId) : null;
+    if (!transcript) return { ok: false, error: "Open a conversation to see its stats." };
+    return { ok: true, stats: computeStats(transcript) };
+  }
+
+  chrome.runtime.onMessage.addListener((message: TimegptTabRequest, _sender, sendResponse) => {
+    switch (message?.type) {
+      case "TIMEGPT_EXPORT":
+        sendResponse(handleExport(message));
+        break;
+      case "TIMEGPT_STATS":
+        sendResponse(handleStats());
+        break;
+      case "TIMEGPT_HEALTH":
+        sendResponse(handleHealth());
+        break;
+      case "TIMEGPT_DIAGNOSTICS":
+        sendResponse(handleDiagnostics());
+        break;
+      case "TIMEGPT_COMMAND":
+        handleCommand(message.command);
+        sendResponse();
+        break;
+    }
+  });
+
+  // --- Formatting ---
+  function formatTimestamp(
+    unixSeconds: number,
+    target: "message" | "sidebar" = "message"
   ): string {
-    return new Intl.DateTimeFormat(undefined, options).format(date);
+    const pattern = target === "sidebar" ? sidebarPattern : messagePattern;
+    return formatWith(unixSeconds, currentFormat, pattern, primaryZone(), relativeThresholdDays);
+  }
+
+  function primaryZone(): ZoneOptions {
+    return { locale: locale || undefined, timeZone: timeZone || undefined };
+  }
+
+  // Calendar day a time falls on, in the user's time zone
+  function dayKey(unixSeconds: number): string {
+    return formatParts(new Date(unixSeconds * 1000), { year: "numeric", month: "2-digit", day: "2-digit" }, primaryZone());
+  }
+
+  function secondaryZone(): ZoneOptions | null {
+    if (!secondaryTimeZone) return null;
+    return { locale: locale || undefined, timeZone: secondaryTimeZone };
+  }
+
+  // e.g. "08:30 EST" — follows the 12h/24h choice of the primary format
+  function formatSecondaryTime(unixSeconds: number, zone: ZoneOptions): string {
+    const hour12 = currentFormat === "datetime12" || currentFormat === "time12";
+    return formatParts(new Date(unixSeconds * 1000), {
+      hour: hour12 ? "numeric" : "2-digit",
+      minute: "2-digit",
+      hour12,
+      timeZoneName: "short",
+    }, zone);
+  }
+
+  // Extra tooltip line for the secondary zone, e.g. "\n1/15/2025, 8:30:00 AM (America/New_York)"
+  function secondaryTooltip(unixSeconds: number): string {
+    const zone = secondaryZone();
+    if (!zone) return "";
+    return `\n${formatFull(new Date(unixSeconds * 1000), zone)} (${zone.timeZone})`;
+  }
+
+  // e.g. " · 1.2s to first token · 14s total"
+  function formatTiming(timing: MessageTiming): string {
+    let text = "";
+    if (timing.firstTokenAt != null) {
+      text += ` · ${formatDuration(timing.firstTokenAt - timing.requestSentAt)} to first token`;
+    }
+    if (timing.completedAt != null) {
+      text += ` · ${formatDuration(timing.completedAt - timing.requestSentAt)} total`;
+    }
+    return text;
   }
 
   // =============================================
   // MESSAGE TIMESTAMPS (in-conversation)
   // =============================================
 
+  // Queues every message on the page, e.g. after a settings change
   function applyMessageTimestamps(): void {
-    const messageEls = document.querySelectorAll("[data-message-id]");
+    queueMessages(domIndex.messageIds());
+  }
+
+  function placePendingMessages(): void {
+    const countRetry = retryDue;
+    retryDue = false;
     let applied = 0;
+    const placedIds: string[] = [];
 
-    for (const el of messageEls) {
-      const id = el.getAttribute("data-message-id");
-      if (!id || !timestampMap.has(id)) continue;
-
-      const article = el.closest("article");
-      if (!article) continue;
-      if (article.querySelector(".timegpt-timestamp")) continue;
-
-      const toolbarOuter = article.querySelector("div.z-0.flex");
-      if (!toolbarOuter) continue;
-      const buttonRow = toolbarOuter.firstElementChild;
-      if (!buttonRow) continue;
-
-      const info = timestampMap.get(id)!;
-      const timeEl = document.createElement("time");
-      timeEl.className = "timegpt-timestamp";
-      timeEl.dateTime = new Date(info.createTime * 1000).toISOString();
-      timeEl.textContent = formatTimestamp(info.createTime);
-      const fullDate = new Date(info.createTime * 1000).toLocaleString();
-      timeEl.title = fullDate;
-      timeEl.setAttribute("aria-label", `Sent ${fullDate}`);
-      timeEl.dataset.timegptUnix = String(info.createTime);
-
-      const role = el.getAttribute("data-message-author-role");
-      if (role === "user") {
-        timeEl.classList.add("timegpt-timestamp--user");
-        buttonRow.prepend(timeEl);
-      } else {
-        timeEl.classList.add("timegpt-timestamp--assistant");
-        buttonRow.appendChild(timeEl);
+    for (const [id, retries] of pendingMessages) {
+      const info = timestampMap.get(id);
+      let waiting = false;
+      // The generic fallback spot is only used on the last retry, so a
+      // streaming reply isn't placed before its toolbar could appear
+      const allowFallback = countRetry && retries + 1 >= MAX_RETRIES;
+      // Messages no longer on the page are queued again when re-added
+      for (const el of info ? domIndex.messageElements(id) : []) {
+        const placement = placeMessageTimestamp(id, el, info!, allowFallback);
+        if (placement === "placed") {
+          applied++;
+          placedIds.push(id);
+        }
+        if (placement === "waiting") waiting = true;
+      }
+
+      if (!waiting || (countRetry && retries + 1 >= MAX_RETRIES)) {
+        pendingMessages.delete(id);
+      } else if (countRetry) {
+        pendingMessages.set(id, retries + 1);
       }
-      applied++;
     }
 
     if (applied > 0) {
       if (__DEBUG__) console.log(`[TimeGPT] Applied ${applied} message timestamps to DOM`);
+      // Shown timestamps are the last to be evicted from the cache
+      cacheWriter.useMessages(placedIds);
     }
+
+    // Streaming messages: the toolbar may not exist yet when the
+    // timestamp data arrives, so check back shortly
+    if (pendingMessages.size > 0) scheduleRetry();
+  }
+
+  function placeMessageTimestamp(
+    id: string,
+    el: Element,
+    info: MessageTimestamp,
+    allowFallback: boolean
+  ): "placed" | "exists" | "waiting" {
+    const turn = el.closest(dom.turnSelector);
+    if (hasMessageTimestamp(id) || turn?.querySelector(".timegpt-timestamp")) return "exists";
+
+    const timeEl = document.createElement("time");
+    timeEl.className = "timegpt-timestamp";
+    timeEl.dateTime = new Date(info.createTime * 1000).toISOString();
+    timeEl.dataset.timegptUnix = String(info.createTime);
+    timeEl.dataset.timegptMessageId = id;
+    // Click to copy, context menu for more (see COPY + MESSAGE LINKS)
+    timeEl.tabIndex = 0;
+    renderMessageTimestamp(timeEl, info);
+
+    const context = { messageEl: el, turn, role: dom.role(el) };
+    const strategy = insertWithStrategies(dom.messageAnchors, context, timeEl, allowFallback);
+    if (!strategy) return "waiting";
+
+    messageStrategyCounts[strategy] = (messageStrategyCounts[strategy] ?? 0) + 1;
+    addTimeEl(messageTimeEls, id, timeEl);
+    if (showAllTimestamps) revealTimestamp(timeEl);
+    return "placed";
   }
 
   // =============================================
-  // SIDEBAR TIMESTAMPS (conversation list)
+  // TIME-GAP SEPARATORS (between messages)
   // =============================================
 
-  function applySidebarTimestamps(): void {
-    const sidebarLinks = document.querySelectorAll<HTMLAnchorElement>(
-      'a[data-sidebar-item][href^="/c/"]'
-    );
-    let applied = 0;
+  // Separators by the message ID of the turn they precede
+  const gapEls = new Map<string, HTMLElement>();
 
-    for (const link of sidebarLinks) {
-      if (link.querySelector(".timegpt-sidebar-time")) continue;
+  // Turns on the page with a timestamp, in time order, from the element
+  // index. A turn's time is its first message's.
+  function timedTurns(): Array<{ id: string; createTime: number; turn: Element }> {
+    const byTurn = new Map<Element, { id: string; createTime: number; turn: Element }>();
+    for (const id of domIndex.messageIds()) {
+      const info = timestampMap.get(id);
+      const turn = info ? domIndex.messageElements(id)[0]?.closest(dom.turnSelector) : null;
+      if (!info || !turn) continue;
+      const existing = byTurn.get(turn);
+      if (!existing || info.createTime < existing.createTime) {
+        byTurn.set(turn, { id, createTime: info.createTime, turn });
+      }
+    }
+    return [...byTurn.values()].sort((a, b) => a.createTime - b.createTime);
+  }
 
-      const match = link.getAttribute("href")?.match(/\/c\/([0-9a-f-]+)/);
-      if (!match) continue;
-      const convId = match[1];
+  // Inserts a divider before each turn that was sent more than
+  // `gapHours` after the previous one. Only turns whose message changed,
+  // and the turns right after them, are checked; null checks them all.
+  // Existing separators are kept when still valid and removed when they
+  // no longer apply.
+  function applyTimeGaps(changed: Set<string> | null): void {
+    const thresholdSec = gapHours * 3600;
+    const present = new Set<string>();
+    let prevTime: number | null = null;
+    let prevChanged = false;
 
-      if (!conversationMap.has(convId)) continue;
+    for (const { id, createTime, turn } of timedTurns()) {
+      present.add(id);
+      const isChanged = !changed || changed.has(id);
+      if (isChanged || prevChanged) {
+        const text =
+          prevTime !== null && createTime - prevTime > thresholdSec ? formatGap(prevTime, createTime) : null;
+        updateGap(id, turn, text);
+      }
+      prevChanged = isChanged;
+      prevTime = createTime;
+    }
 
-      const info = conversationMap.get(convId)!;
-      const createUnix = isoToUnix(info.createTime);
+    for (const [id, sep] of gapEls) {
+      if (present.has(id)) continue;
+      sep.remove();
+      gapEls.delete(id);
+    }
+  }
 
-      const timeEl = document.createElement("time");
-      timeEl.className = "timegpt-sidebar-time";
-      timeEl.dateTime = info.createTime;
-      timeEl.textContent = formatTimestamp(createUnix);
-      const fullDate = new Date(info.createTime).toLocaleString();
-      timeEl.title = `Created: ${fullDate}`;
-      timeEl.setAttribute("aria-label", `Created ${fullDate}`);
-      timeEl.dataset.timegptUnix = String(createUnix);
+  function updateGap(id: string, turn: Element, text: string | null): void {
+    let sep = gapEls.get(id);
+    if (text === null) {
+      sep?.remove();
+      gapEls.delete(id);
+      return;
+    }
+    // The site may have re-rendered the turn without our separator
+    if (!sep || sep.nextElementSibling !== turn) {
+      sep?.remove();
+      sep = document.createElement("div");
+      sep.className = "timegpt-gap";
+      sep.setAttribute("role", "separator");
+      sep.dataset.timegptGapFor = id;
+      turn.before(sep);
+      gapEls.set(id, sep);
+    }
+    if (sep.textContent !== text) sep.textContent = text;
+  }
 
-      const truncateDiv = link.querySelector("div.truncate");
-      if (truncateDiv) {
-        truncateDiv.appendChild(timeEl);
+  // e.g. "3 days later · Tuesday, Jan 14"
+  function formatGap(fromUnix: number, toUnix: number): string {
+    const diffHours = Math.floor((toUnix - fromUnix) / 3600);
+    const diffDays = Math.floor(diffHours / 24);
+    const gap =
+      diffDays >= 1
+        ? `${diffDays} ${diffDays === 1 ? "day" : "days"} later`
+        : `${diffHours} ${diffHours === 1 ? "hour" : "hours"} later`;
+
+    const date = new Date(toUnix * 1000);
+    const zone = primaryZone();
+    // The year as seen in the configured time zone, not the browser's
+    const sameYear = calendarDay(date, zone).slice(0, 4) === calendarDay(new Date(), zone).slice(0, 4);
+    const header = formatParts(date, {
+      weekday: "long",
+      month: "short",
+      day: "numeric",
+      year: sameYear ? undefined : "numeric",
+    }, zone);
+    return `${gap} · ${header}`;
+  }
+
+  function renderMessageTimestamp(timeEl: HTMLElement, info: MessageTimestamp): void {
+    const timing = showTiming && info.timing ? formatTiming(info.timing) : "";
+    let text = formatTimestamp(info.createTime);
+
+    // Dual-timezone display, e.g. "14:30 CET / 08:30 EST"
+    const secondary = secondaryZone();
+    if (secondary && secondaryDisplay === "inline") {
+      if (currentFormat !== "relative") {
+        text += ` ${zoneAbbreviation(new Date(info.createTime * 1000), primaryZone())}`;
       }
+      text += ` / ${formatSecondaryTime(info.createTime, secondary)}`;
+    }
+
+    // Which model or tool wrote it, e.g. "gpt-4o · 14:32"
+    const origin = info.model ?? info.tool;
+    if (showModel && origin) text = `${origin} · ${text}`;
+
+    const id = timeEl.dataset.timegptMessageId;
+    const versions = id ? messageVersions(id) : [];
+    // The version label already says "regenerated" when siblings are known
+    const regenerated = showModel && info.regenerated && versions.length === 0 ? " · regenerated" : "";
+
+    setText(timeEl, text + timing + regenerated + (id ? formatVersionLabel(id, versions) : ""));
+    relativeRefresh.track(timeEl, [info.createTime]);
+    const fullDate = formatFull(new Date(info.createTime * 1000), primaryZone());
+    timeEl.title =
+      fullDate +
+      secondaryTooltip(info.createTime) +
+      formatOrigin(info) +
+      (info.timing ? formatTiming(info.timing) : "") +
+      (id ? formatVersionList(id, versions) : "") +
+      "\n\nClick to copy · right-click for more";
+    timeEl.setAttribute("aria-label", `Sent ${fullDate}`);
+  }
+
+  // Tooltip lines, e.g. "\nModel: gpt-4o\nRegenerated reply"
+  function formatOrigin(info: MessageTimestamp): string {
+    let text = "";
+    if (info.model) text += `\nModel: ${info.model}`;
+    if (info.tool) text += `\nTool: ${info.tool}`;
+    if (info.regenerated) text += "\nRegenerated reply";
+    return text;
+  }
+
+  // e.g. " · version 2 of 3 · regenerated 4m after original"
+  function formatVersionLabel(id: string, versions: Array<[string, MessageTimestamp]>): string {
+    const index = versions.findIndex(([versionId]) => versionId === id);
+    if (index === -1) return "";
+    let text = ` · version ${index + 1} of ${versions.length}`;
+    if (index > 0) {
+      const [, current] = versions[index];
+      const [, original] = versions[0];
+      const verb = current.role === "user" ? "edited" : "regenerated";
+      text += ` · ${verb} ${formatElapsed(current.createTime - original.createTime)} after original`;
+    }
+    return text;
+  }
+
+  // Tooltip list of all versions, marking the one being shown
+  function formatVersionList(id: string, versions: Array<[string, MessageTimestamp]>): string {
+    if (versions.length === 0) return "";
+    const lines = versions.map(([versionId, version], i) => {
+      const marker = versionId === id ? "▸" : " ";
+      const time = formatFull(new Date(version.createTime * 1000), primaryZone());
+      return `${marker} ${i + 1}. ${time}${i === 0 ? " (original)" : ""}`;
+    });
+    return `\n\nVersions:\n${lines.join("\n")}`;
+  }
+
+  // Re-render an already injected timestamp, e.g. when response timing arrives
+  function refreshMessageTimestamp(id: string): void {
+    const info = timestampMap.get(id);
+    if (!info) return;
+    forEachTimeEl(messageTimeEls, id, (el) => renderMessageTimestamp(el, info));
+  }
+
+  // =============================================
+  // SIDEBAR TIMESTAMPS (conversation list)
+  // =============================================
+
+  // Queues every conversation in the sidebar, e.g. after a settings change
+  function applySidebarTimestamps(): void {
+    queueConversations(domIndex.conversationIds());
+  }
+
+  function placePendingConversations(): void {
+    let applied = 0;
+    const placedIds = new Set<string>();
+
+    for (const convId of pendingConversations) {
+      const info = conversationMap.get(convId);
+      if (!info) continue;
 
-      applied++;
+      for (const link of domIndex.sidebarLinks(convId)) {
+        if (link.querySelector(".timegpt-sidebar-time")) continue;
+
+        const timeEl = document.createElement("time");
+        timeEl.className = "timegpt-sidebar-time";
+        timeEl.dataset.timegptConversationId = convId;
+        renderSidebarTimestamp(timeEl, info);
+        // Sidebar links are complete when added, so no need to wait
+        const strategy = insertWithStrategies(dom.sidebarAnchors, { link }, timeEl, true);
+        if (!strategy) continue;
+
+        sidebarStrategyCounts[strategy] = (sidebarStrategyCounts[strategy] ?? 0) + 1;
+        addTimeEl(sidebarTimeEls, convId, timeEl);
+        placedIds.add(convId);
+        applied++;
+      }
     }
 
     if (applied > 0) {
       if (__DEBUG__) console.log(`[TimeGPT] Applied ${applied} sidebar timestamps`);
+      cacheWriter.useConversations(placedIds);
     }
   }
 
+  function renderSidebarTimestamp(timeEl: HTMLElement, info: ConversationTimestamp): void {
+    const createUnix = isoToUnix(info.createTime);
+    // Conversations that were never updated fall back to their creation time
+    const updateTime = info.updateTime ?? info.createTime;
+    const updateUnix = isoToUnix(updateTime);
+
+    let text: string;
+    let shown: number[];
+    switch (sidebarField) {
+      case "updated":
+        text = formatTimestamp(updateUnix, "sidebar");
+        shown = [updateUnix];
+        timeEl.setAttribute("datetime", updateTime);
+        timeEl.dataset.timegptUnix = String(updateUnix);
+        break;
+      case "both":
+        text = `Created ${formatTimestamp(createUnix, "sidebar")} · active ${formatTimestamp(updateUnix, "sidebar")}`;
+        shown = [createUnix, updateUnix];
+        timeEl.setAttribute("datetime", info.createTime);
+        timeEl.dataset.timegptUnix = String(createUnix);
+        break;
+      default:
+        text = formatTimestamp(createUnix, "sidebar");
+        shown = [createUnix];
+        timeEl.setAttribute("datetime", info.createTime);
+        timeEl.dataset.timegptUnix = String(createUnix);
+    }
+    setText(timeEl, text);
+    relativeRefresh.track(timeEl, shown);
+
+    const created = formatFull(new Date(info.createTime), primaryZone());
+    const updated = formatFull(new Date(updateTime), primaryZone());
+    timeEl.title =
+      `Created: ${created}${secondaryTooltip(createUnix)}` +
+      `\nUpdated: ${updated}${secondaryTooltip(updateUnix)}`;
+    timeEl.setAttribute("aria-label", `Created ${created}, updated ${updated}`);
+  }
+
+  function refreshSidebarTimestamp(id: string): void {
+    const info = conversationMap.get(id);
+    if (!info) return;
+    forEachTimeEl(sidebarTimeEls, id, (el) => renderSidebarTimestamp(el, info));
+  }
+
+  // Skips the write when nothing changed, so re-renders don't touch the DOM
+  function setText(el: HTMLElement, text: string): void {
+    if (el.textContent !== text) el.textContent = text;
+  }
+
   // --- Refresh all visible timestamps ---
   function refreshAllTimestamps(): void {
-    const allEls = document.querySelectorAll<HTMLElement>(
-      "[data-timegpt-unix]"
-    );
-    for (const el of allEls) {
-      el.textContent = formatTimestamp(Number(el.dataset.timegptUnix));
-    }
+    for (const id of [...messageTimeEls.keys()]) refreshMessageTimestamp(id);
+    for (const id of [...sidebarTimeEls.keys()]) refreshSidebarTimestamp(id);
   }
 
   // --- MutationObserver for messages + sidebar ---
+  // Indexes added elements and queues only what they affect
   const observer = new MutationObserver((mutations) => {
-    let hasMessages = false;
-    let hasSidebar = false;
+    checkLocation();
+    const messageIds = new Set<string>();
+    const conversationIds: string[] = [];
+    const turns = new Set<Element>();
+    for (const id of labelMessages()) messageIds.add(id);
 
     for (const mutation of mutations) {
+      if (mutation.removedNodes.length > 0) needsPrune = true;
       for (const node of mutation.addedNodes) {
         if (node.nodeType !== Node.ELEMENT_NODE) continue;
         const el = node as Element;
-        if (
-          el.hasAttribute?.("data-message-id") ||
-          el.querySelector?.("[data-message-id]")
-        ) {
-          hasMessages = true;
-        }
-        if (
-          el.matches?.("[data-sidebar-item]") ||
-          el.querySelector?.("[data-sidebar-item]")
-        ) {
-          hasSidebar = true;
-        }
-        if (hasMessages && hasSidebar) break;
+        const found = domIndex.scan(el);
+        for (const id of found.messageIds) messageIds.add(id);
+        conversationIds.push(...found.conversationIds);
+        // Content added inside a message, e.g. its toolbar once a
+        // streaming reply finishes
+        const turn = el.closest(dom.turnSelector);
+        if (turn) turns.add(turn);
+      }
+    }
+
+    for (const turn of turns) {
+      const msgEl = messageInTurn(turn);
+      const id = msgEl ? dom.messageId(msgEl) : null;
+      if (id && !hasMessageTimestamp(id)) messageIds.add(id);
+    }
+
+    if (messageIds.size > 0) queueMessages(messageIds);
+    if (conversationIds.length > 0) queueConversations(conversationIds);
+    if (needsPrune) scheduleFlush();
+  });
+
+  // =============================================
+  // COPY + MESSAGE LINKS
+  // =============================================
+
+  const timestampMenu = createTimestampMenu();
+
+  function copyText(text: string, notice: string): void {
+    navigator.clipboard.writeText(text).then(
+      () => toast.show(notice),
+      () => toast.show("Couldn't copy to the clipboard")
+    );
+  }
+
+  // The transcript's text when captured, else what the page shows
+  function messageText(id: string): string {
+    const convId = currentConversationId();
+    const captured = convId ? detailMap.get(convId)?.messages.find((m) => m.id === id) : undefined;
+    if (captured?.text) return captured.text;
+    const el = domIndex.messageElements(id)[0];
+    return el instanceof HTMLElement ? el.innerText.trim() : "";
+  }
+
+  function conversationUrl(): string {
+    return window.location.origin + window.location.pathname;
+  }
+
+  function conversationTitle(): string | null {
+    const convId = currentConversationId();
+    if (!convId) return null;
+    return detailMap.get(convId)?.title ?? conversationMap.get(convId)?.title ?? null;
+  }
+
+  function copyTime(timeEl: HTMLElement, info: MessageTimestamp): void {
+    const text = formatCopiedTime(info.createTime, copyFormat, timeEl.textContent ?? "", primaryZone());
+    copyText(text, `Copied ${text}`);
+  }
+
+  function openTimestampMenu(timeEl: HTMLElement, x: number, y: number): void {
+    const id = timeEl.dataset.timegptMessageId;
+    const info = id ? timestampMap.get(id) : undefined;
+    if (!id || !info) return;
+    timestampMenu.open(x, y, [
+      {
+        label: "Copy ISO time",
+        run: () => {
+          const text = formatCopiedTime(info.createTime, "iso", "", primaryZone());
+          copyText(text, `Copied ${text}`);
+        },
+      },
+      {
+        label: "Copy message with timestamp",
+        run: () =>
+          copyText(
+            formatMessageWithTime(info.role, info.createTime, messageText(id), primaryZone()),
+            "Copied message"
+          ),
+      },
+      {
+        label: "Copy link to this message",
+        run: () => copyText(messageLink(conversationUrl(), id), "Copied link"),
+      },
+      {
+        label: "Copy citation",
+        run: () =>
+          copyText(
+            formatCitation(
+              {
+                site: siteName,
+                title: conversationTitle(),
+                url: conversationUrl(),
+                role: info.role,
+                createTime: info.createTime,
+              },
+              primaryZone()
+            ),
+            "Copied citation"
+          ),
+      },
+    ], timeEl);
+  }
+
+  function timestampAt(target: EventTarget | null): HTMLElement | null {
+    return target instanceof Element ? target.closest<HTMLElement>(".timegpt-timestamp") : null;
+  }
+
+  // Capture phase, so the click is stopped before it reaches the site's
+  // own (React root) listeners and its row doesn't react to it
+  document.addEventListener(
+    "click",
+    (e) => {
+      const timeEl = timestampAt(e.target);
+      const info = timeEl?.dataset.timegptMessageId ? timestampMap.get(timeEl.dataset.timegptMessageId) : undefined;
+      if (!timeEl || !info) return;
+      e.preventDefault();
+      e.stopPropagation();
+      copyTime(timeEl, info);
+    },
+    { capture: true }
+  );
+
+  document.addEventListener("keydown", (e) => {
+    if (e.key !== "Enter" && e.key !== " ") return;
+    const timeEl = timestampAt(e.target);
+    if (!timeEl) return;
+    e.preventDefault();
+    timeEl.click();
+  });
+
+  document.addEventListener("contextmenu", (e) => {
+    const timeEl = timestampAt(e.target);
+    if (!timeEl) return;
+    e.preventDefault();
+    // Opened from the keyboard: place it below the timestamp
+    let { clientX: x, clientY: y } = e;
+    if (x === 0 && y === 0) {
+      const rect = timeEl.getBoundingClientRect();
+      x = rect.left;
+      y = rect.bottom + 4;
+    }
+    openTimestampMenu(timeEl, x, y);
+  });
+
+  // =============================================
+  // DEEP LINKS (#timegpt=<message ID>, #t=<time>)
+  // =============================================
+
+  const deepLinks = createDeepLinks({
+    dom,
+    getTimestamp: (id) => timestampMap.get(id),
+    messageElements: (id) => domIndex.messageElements(id),
+    getTranscript: () => {
+      const convId = currentConversationId();
+      return (convId && detailMap.get(convId)?.messages) || null;
+    },
+    zone: primaryZone,
+    onReveal: highlightTurn,
+  });
+
+  // The sites change routes client-side, which always changes the page
+  // too, so the URL is checked on every mutation batch as well as on
+  // history and fragment changes
+  function checkLocation(): void {
+    if (!deepLinks.check(window.location.href)) return;
+    messagesChanged = true;
+    scheduleFlush();
+  }
+
+  window.addEventListener("hashchange", checkLocation);
+  window.addEventListener("popstate", checkLocation);
+
+  // =============================================
+  // KEYBOARD SHORTCUTS
+  // =============================================
+
+  // Shows message timestamps without hovering, until toggled off or the
+  // page reloads (not saved)
+  let showAllTimestamps = false;
+
+  // The site hides its button row (and the timestamp in it) until the
+  // message is hovered. Tag every element between the timestamp and its
+  // turn so the stylesheet can override that while showAllTimestamps is on.
+  function revealTimestamp(timeEl: HTMLElement): void {
+    const turn = timeEl.closest(dom.turnSelector);
+    for (let el = timeEl.parentElement; el && el !== turn; el = el.parentElement) {
+      el.classList.add("timegpt-reveal");
+    }
+  }
+
+  function setShowAllTimestamps(show: boolean): void {
+    showAllTimestamps = show;
+    document.documentElement.classList.toggle("timegpt-show-all", show);
+    if (!show) return;
+    for (const id of [...messageTimeEls.keys()]) forEachTimeEl(messageTimeEls, id, revealTimestamp);
+  }
+
+  // Commands from chrome://extensions/shortcuts, via the background worker
+  function handleCommand(command: TimegptCommand): void {
+    switch (command) {
+      case "cycle-format": {
+        const next = nextTimestampFormat(currentFormat);
+        chrome.storage.sync.set({ timestampFormat: next });
+        toast.show(`Timestamp format: ${timestampFormatLabel(next)}`);
+        break;
       }
-      if (hasMessages && hasSidebar) break;
+      case "toggle-message-timestamps":
+        chrome.storage.sync.set({ showMessageTimestamps: !showMessages });
+        toast.show(`Message timestamps ${showMessages ? "off" : "on"}`);
+        break;
+      case "toggle-sidebar-timestamps":
+        chrome.storage.sync.set({ showSidebarTimestamps: !showSidebar });
+        toast.show(`Conversation timestamps ${showSidebar ? "off" : "on"}`);
+        break;
+      case "show-all-timestamps":
+        setShowAllTimestamps(!showAllTimestamps);
+        toast.show(showAllTimestamps ? "Showing all timestamps" : "Timestamps shown on hover");
+        break;
     }
+  }
 
-    if (hasMessages && showMessages) applyMessageTimestamps();
-    if (hasSidebar && showSidebar) applySidebarTimestamps();
+  // In-page: Alt+↑ / Alt+↓ jump to the previous / next day in the chat
+  // An empty message box (focused by default) doesn't count, so the
+  // shortcut works without clicking away first
+  function isTypingIn(target: EventTarget | null): boolean {
+    if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement) {
+      return target.value.trim() !== "";
+    }
+    if (target instanceof HTMLElement && target.isContentEditable) {
+      return (target.textContent ?? "").trim() !== "";
+    }
+    return false;
+  }
+
+  // Off a conversation (or before its times arrive) the keys are left to
+  // the site and the browser
+  function hasDatedTurns(): boolean {
+    return domIndex.messageIds().some((id) => timestampMap.has(id) && domIndex.messageElements(id).length > 0);
+  }
+
+  document.addEventListener("keydown", (e) => {
+    if (!e.altKey || e.ctrlKey || e.metaKey || e.shiftKey) return;
+    if (e.key !== "ArrowUp" && e.key !== "ArrowDown") return;
+    if (!domReady || isTypingIn(e.target) || !hasDatedTurns()) return;
+    const jumped = dayJump.jump(e.key === "ArrowUp" ? "previous" : "next");
+    if (!jumped) toast.show(e.key === "ArrowUp" ? "No earlier day in this chat" : "No later day in this chat");
+    e.preventDefault();
   });
 
-  observer.observe(document.body, { childList: true, subtree: true });
+  // --- Start once the page exists ---
+  function start(): void {
+    domReady = true;
+    labelMessages();
+    domIndex.scan(document.body);
+    observer.observe(document.body, { childList: true, subtree: true });
+    checkLocation();
+    applyAll();
+    // Handle queued interceptor messages, then pick up anything it
+    // captured before the channel was open
+    channel.start();
+    channel.send({ type: "TIMEGPT_DRAIN_REQUEST" });
+  }
 
-  startRefreshTimer();
+  if (document.readyState === "loading") {
+    document.addEventListener("DOMContentLoaded", start, { once: true });
+  } else {
+    start();
+  }
 })();
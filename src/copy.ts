@@ -0,0 +1,58 @@
+// TimeGPT — Text copied from a message timestamp: the time itself, the
+// message with its time, and a citation for docs.
+
+import type { CopyFormat } from "./types";
+import type { ZoneOptions } from "./format";
+import { formatFull } from "./format";
+import { isoTime, roleLabel } from "./export";
+
+export interface CitedMessage {
+  // e.g. "ChatGPT"
+  site: string;
+  title: string | null;
+  // Conversation URL (without the message fragment)
+  url: string;
+  role: string | null;
+  createTime: number;
+}
+
+// `shown` is the timestamp's text as rendered
+export function formatCopiedTime(
+  unixSeconds: number,
+  format: CopyFormat,
+  shown: string,
+  zone: ZoneOptions = {}
+): string {
+  switch (format) {
+    case "full":
+      return formatFull(new Date(unixSeconds * 1000), zone);
+    case "shown":
+      return shown;
+    case "unix":
+      return String(Math.floor(unixSeconds));
+    default:
+      return isoTime(unixSeconds);
+  }
+}
+
+// e.g. "Assistant · 1/15/2025, 2:30:00 PM\n\n<message text>"
+export function formatMessageWithTime(
+  role: string | null,
+  unixSeconds: number,
+  text: string,
+  zone: ZoneOptions = {}
+): string {
+  const header = `${roleLabel(role)} · ${formatFull(new Date(unixSeconds * 1000), zone)}`;
+  return text ? `${header}\n\n${text}` : header;
+}
+
+// e.g. "Trip plan" — ChatGPT conversation, Assistant message,
+// 1/15/2025, 2:30:00 PM (2025-01-15T13:30:00Z). https://chatgpt.com/c/…
+export function formatCitation(message: CitedMessage, zone: ZoneOptions = {}): string {
+  const title = message.title || "Untitled conversation";
+  const time = formatFull(new Date(message.createTime * 1000), zone);
+  return (
+    `"${title}" — ${message.site} conversation, ${roleLabel(message.role)} message, ` +
+    `${time} (${isoTime(message.createTime)}). ${message.url}`
+  );
+}
@@ -0,0 +1,175 @@
+// TimeGPT dashboard — activity heatmap, busiest hours and monthly totals
+
+import { loadUsageHistory, clearUsageHistory, summarizeUsage } from "./usage";
+import type { UsageSummary } from "./usage";
+import { loadSettings } from "./settings";
+import { addDays, calendarDay, formatDay, weekdayOf } from "./format";
+import type { ZoneOptions } from "./format";
+
+type Metric = "messages" | "conversations";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const metricSelect = document.getElementById("metric") as HTMLSelectElement;
+const totalsEl = document.getElementById("totals")!;
+const calendarEl = document.getElementById("calendar")!;
+const hoursEl = document.getElementById("hours")!;
+const monthlyEl = document.getElementById("monthly")!;
+const clearBtn = document.getElementById("clear-history") as HTMLButtonElement;
+
+let summary: UsageSummary | null = null;
+// The time zone and locale set in the options, as on the chat pages
+let zone: ZoneOptions = {};
+
+function load(): void {
+  Promise.all([loadUsageHistory(), loadSettings()]).then(([history, settings]) => {
+    zone = { locale: settings.locale || undefined, timeZone: settings.timeZone || undefined };
+    summary = summarizeUsage(history, zone);
+    render();
+  });
+}
+
+function render(): void {
+  if (!summary) return;
+  const metric = metricSelect.value as Metric;
+  renderTotals(summary);
+  renderCalendar(summary, metric);
+  renderHours(summary);
+  renderMonthly(summary);
+}
+
+// Maps a count onto 0–4 relative to the busiest value
+function level(count: number, max: number): number {
+  if (count === 0 || max === 0) return 0;
+  return Math.min(4, Math.ceil((count / max) * 4));
+}
+
+function sum(values: Iterable<number>): number {
+  let total = 0;
+  for (const value of values) total += value;
+  return total;
+}
+
+function renderTotals(s: UsageSummary): void {
+  const activeDays = new Set([...s.messagesPerDay.keys(), ...s.conversationsPerDay.keys()]).size;
+  const totals: Array<[string, number]> = [
+    ["Conversations", sum(s.conversationsPerDay.values())],
+    ["Messages", sum(s.messagesPerDay.values())],
+    ["Active days", activeDays],
+  ];
+  totalsEl.replaceChildren(
+    ...totals.map(([label, value]) => {
+      const item = document.createElement("div");
+      const valueEl = document.createElement("div");
+      valueEl.className = "total-value";
+      valueEl.textContent = value.toLocaleString();
+      const labelEl = document.createElement("div");
+      labelEl.className = "total-label";
+      labelEl.textContent = label;
+      item.append(valueEl, labelEl);
+      return item;
+    })
+  );
+}
+
+function renderCalendar(s: UsageSummary, metric: Metric): void {
+  const perDay = metric === "messages" ? s.messagesPerDay : s.conversationsPerDay;
+  const max = Math.max(0, ...perDay.values());
+
+  // Start on the Sunday 52 weeks back so every column is a full week
+  const today = calendarDay(new Date(), zone);
+  const start = addDays(today, -364 - weekdayOf(today));
+
+  const cells: HTMLElement[] = [];
+  for (let day = start; day <= today; day = addDays(day, 1)) {
+    const count = perDay.get(day) ?? 0;
+    const cell = document.createElement("div");
+    cell.className = "cell";
+    cell.dataset.level = String(level(count, max));
+    const label = formatDay(day, {
+      weekday: "short",
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    }, zone.locale);
+    cell.title = `${label}: ${count} ${count === 1 ? metric.slice(0, -1) : metric}`;
+    cells.push(cell);
+  }
+  calendarEl.replaceChildren(...cells);
+}
+
+function renderHours(s: UsageSummary): void {
+  const max = Math.max(0, ...s.messagesByHour.flat());
+  const nodes: HTMLElement[] = [document.createElement("span")];
+
+  for (let hour = 0; hour < 24; hour++) {
+    const label = document.createElement("span");
+    label.className = "hour-label";
+    label.textContent = hour % 3 === 0 ? String(hour) : "";
+    nodes.push(label);
+  }
+
+  s.messagesByHour.forEach((hours, weekday) => {
+    const label = document.createElement("span");
+    label.className = "label";
+    label.textContent = WEEKDAYS[weekday];
+    nodes.push(label);
+    hours.forEach((count, hour) => {
+      const cell = document.createElement("div");
+      cell.className = "cell";
+      cell.dataset.level = String(level(count, max));
+      cell.title = `${WEEKDAYS[weekday]} ${String(hour).padStart(2, "0")}:00 — ${count} messages`;
+      nodes.push(cell);
+    });
+  });
+  hoursEl.replaceChildren(...nodes);
+}
+
+function renderMonthly(s: UsageSummary): void {
+  const months = [...s.monthly.entries()].sort(([a], [b]) => b.localeCompare(a));
+  if (months.length === 0) {
+    const empty = document.createElement("p");
+    empty.className = "empty-state";
+    empty.textContent = "No activity recorded yet. Browse ChatGPT or Claude with TimeGPT enabled to build up history.";
+    monthlyEl.replaceChildren(empty);
+    return;
+  }
+
+  const maxMessages = Math.max(...months.map(([, totals]) => totals.messages));
+  const table = document.createElement("table");
+  table.innerHTML = `
+    <thead><tr><th>Month</th><th class="num">Conversations</th><th class="num">Messages</th><th></th></tr></thead>
+  `;
+  const tbody = document.createElement("tbody");
+  for (const [key, totals] of months) {
+    const row = document.createElement("tr");
+    const name = document.createElement("td");
+    name.textContent = formatDay(`${key}-01`, { year: "numeric", month: "long" }, zone.locale);
+    const conversations = document.createElement("td");
+    conversations.className = "num";
+    conversations.textContent = totals.conversations.toLocaleString();
+    const messages = document.createElement("td");
+    messages.className = "num";
+    messages.textContent = totals.messages.toLocaleString();
+    const barCell = document.createElement("td");
+    const bar = document.createElement("div");
+    bar.className = "bar";
+    bar.style.width = `${maxMessages ? (totals.messages / maxMessages) * 100 : 0}%`;
+    barCell.appendChild(bar);
+    row.append(name, conversations, messages, barCell);
+    tbody.appendChild(row);
+  }
+  table.appendChild(tbody);
+  monthlyEl.replaceChildren(table);
+}
+
+metricSelect.addEventListener("change", render);
+
+clearBtn.addEventListener("click", () => {
+  if (!confirm("Clear all locally recorded usage history?")) return;
+  clearUsageHistory().then(load, (err) => {
+    alert(`Couldn't clear the usage history: ${err instanceof Error ? err.message : err}`);
+  });
+});
+
+load();
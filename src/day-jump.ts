@@ -0,0 +1,53 @@
+// TimeGPT — Jumps to the previous or next day boundary in the open chat:
+// the first message of each calendar day, in page order.
+
+import type { MessageTimestamp } from "./types";
+import type { ProviderDom } from "./providers";
+
+export interface DayJumpOptions {
+  dom: ProviderDom;
+  getTimestamp: (id: string) => MessageTimestamp | undefined;
+  // Calendar day key of a time, in the user's time zone
+  dayKey: (unixSeconds: number) => string;
+  // Called after scrolling to a message, e.g. to highlight it
+  onJump?: (turn: Element) => void;
+}
+
+// A boundary this far below the top of the viewport still counts as the
+// one being read (room for the site's sticky header), so "next" moves
+// past it
+const READING_LINE_PX = 96;
+
+export function createDayJump(options: DayJumpOptions) {
+  // First turn of each day, in page order
+  function boundaries(): Element[] {
+    const { dom } = options;
+    const turns: Element[] = [];
+    let lastDay: string | null = null;
+    for (const turn of document.querySelectorAll(dom.turnSelector)) {
+      const msgEl = turn.matches(dom.messageSelector) ? turn : turn.querySelector(dom.messageSelector);
+      const id = msgEl ? dom.messageId(msgEl) : null;
+      const info = id ? options.getTimestamp(id) : undefined;
+      if (!info) continue;
+      const day = options.dayKey(info.createTime);
+      if (day !== lastDay) turns.push(turn);
+      lastDay = day;
+    }
+    return turns;
+  }
+
+  // Returns whether there was a boundary to jump to
+  function jump(direction: "previous" | "next"): boolean {
+    const tops = boundaries().map((turn) => ({ turn, top: turn.getBoundingClientRect().top }));
+    const target =
+      direction === "next"
+        ? tops.find(({ top }) => top > READING_LINE_PX)
+        : [...tops].reverse().find(({ top }) => top < 0);
+    if (!target) return false;
+    target.turn.scrollIntoView({ behavior: "smooth", block: "start" });
+    options.onJump?.(target.turn);
+    return true;
+  }
+
+  return { jump };
+}
@@ -0,0 +1,196 @@
+// TimeGPT — Links to a single message. The URL fragment (or query) names
+// a message ID, `#timegpt=<id>`, or a time, `#t=2025-01-15T14:30`, which
+// resolves to the message nearest to it. The content script scrolls to the
+// message once it is rendered and has a timestamp, also after client-side
+// route changes and while long conversations load in.
+
+import type { MessageTimestamp, TranscriptMessage } from "./types";
+import type { ProviderDom } from "./providers";
+import type { ZoneOptions } from "./format";
+import { parseDateTime } from "./format";
+
+const MESSAGE_PARAM = "timegpt";
+const TIME_PARAM = "t";
+
+// Stop waiting for the message after this long, so a link that can't be
+// resolved doesn't scroll the page much later
+const GIVE_UP_MS = 30 * 1000;
+// Without a transcript, time links wait this long for one before picking
+// the nearest message among those already on the page
+const TRANSCRIPT_GRACE_MS = 2000;
+// The site may scroll to the bottom once it finishes rendering; check the
+// message is still in view after this long
+const SETTLE_MS = 600;
+// Scrolls towards the target to make the site load more messages
+const MAX_NUDGES = 30;
+
+export type DeepLink =
+  | { kind: "message"; id: string }
+  | { kind: "time"; time: string };
+
+export function messageLink(pageUrl: string, messageId: string): string {
+  const url = new URL(pageUrl);
+  url.hash = `${MESSAGE_PARAM}=${encodeURIComponent(messageId)}`;
+  return url.href;
+}
+
+// The fragment wins over the query string
+export function parseDeepLink(url: string): DeepLink | null {
+  const parsed = new URL(url);
+  for (const params of [new URLSearchParams(parsed.hash.slice(1)), parsed.searchParams]) {
+    const id = params.get(MESSAGE_PARAM)?.trim();
+    if (id) return { kind: "message", id };
+    // "+" in an offset arrives as a space after form decoding
+    const time = params.get(TIME_PARAM)?.trim().replace(/ /g, "+");
+    if (time) return { kind: "time", time };
+  }
+  return null;
+}
+
+export interface DeepLinkOptions {
+  dom: ProviderDom;
+  getTimestamp: (id: string) => MessageTimestamp | undefined;
+  // Rendered elements of a message
+  messageElements: (id: string) => Element[];
+  // The open conversation's captured transcript, if any
+  getTranscript: () => TranscriptMessage[] | null;
+  // Zone that times without an offset are read in
+  zone: () => ZoneOptions;
+  // Called after scrolling to the message, e.g. to highlight it
+  onReveal?: (turn: Element) => void;
+}
+
+interface PendingLink {
+  link: DeepLink;
+  since: number;
+  nudges: number;
+}
+
+export function createDeepLinks(options: DeepLinkOptions) {
+  let lastHref: string | null = null;
+  let pending: PendingLink | null = null;
+  // Re-checks a time link once the transcript grace period is over, in
+  // case nothing else changes on the page by then
+  let graceTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Call with the current URL whenever it may have changed. Returns
+  // whether a new link is waiting to be resolved.
+  function check(href: string): boolean {
+    if (href === lastHref) return false;
+    lastHref = href;
+    const link = parseDeepLink(href);
+    pending = link ? { link, since: Date.now(), nudges: 0 } : null;
+    if (link && __DEBUG__) console.log("[TimeGPT] Deep link:", link);
+    return pending !== null;
+  }
+
+  // Messages on the page with a timestamp, in page order
+  function renderedMessages(): Array<{ id: string; createTime: number; turn: Element }> {
+    const { dom } = options;
+    const rendered: Array<{ id: string; createTime: number; turn: Element }> = [];
+    for (const el of document.querySelectorAll(dom.messageSelector)) {
+      const id = dom.messageId(el);
+      const info = id ? options.getTimestamp(id) : undefined;
+      const turn = el.closest(dom.turnSelector);
+      if (id && info && turn) rendered.push({ id, createTime: info.createTime, turn });
+    }
+    return rendered;
+  }
+
+  // The message a link points at: its ID and time (null when the time
+  // isn't known yet). Undefined while it can't be decided yet; null if
+  // it never can.
+  function resolve(link: DeepLink, since: number): { id: string; createTime: number | null } | null | undefined {
+    if (link.kind === "message") {
+      const fromTranscript = options.getTranscript()?.find((m) => m.id === link.id)?.createTime;
+      return { id: link.id, createTime: options.getTimestamp(link.id)?.createTime ?? fromTranscript ?? null };
+    }
+
+    const target = parseDateTime(link.time, options.zone());
+    if (target === null) return null;
+    const transcript = options.getTranscript();
+    let candidates: Array<{ id: string; createTime: number }> = [];
+    if (transcript) {
+      for (const m of transcript) {
+        if (m.createTime !== null) candidates.push({ id: m.id, createTime: m.createTime });
+      }
+    } else if (Date.now() - since >= TRANSCRIPT_GRACE_MS) {
+      candidates = renderedMessages();
+    }
+    if (candidates.length === 0) return undefined;
+
+    let nearest = candidates[0];
+    for (const candidate of candidates) {
+      if (Math.abs(candidate.createTime - target) < Math.abs(nearest.createTime - target)) {
+        nearest = candidate;
+      }
+    }
+    return nearest;
+  }
+
+  function reveal(turn: Element): void {
+    turn.scrollIntoView({ block: "center" });
+    options.onReveal?.(turn);
+    setTimeout(() => {
+      if (!turn.isConnected) return;
+      const rect = turn.getBoundingClientRect();
+      if (rect.bottom < 0 || rect.top > window.innerHeight) turn.scrollIntoView({ block: "center" });
+    }, SETTLE_MS);
+  }
+
+  // Long conversations may render only part of the transcript; scroll to
+  // the end of what's there in the target's direction so the site loads more
+  function nudge(state: PendingLink, createTime: number | null): void {
+    if (createTime === null || state.nudges >= MAX_NUDGES) return;
+    const rendered = renderedMessages();
+    if (rendered.length === 0) return;
+    const first = rendered[0];
+    const last = rendered[rendered.length - 1];
+    if (createTime < first.createTime) {
+      first.turn.scrollIntoView({ block: "start" });
+    } else if (createTime > last.createTime) {
+      last.turn.scrollIntoView({ block: "end" });
+    } else {
+      return;
+    }
+    state.nudges++;
+  }
+
+  // Call whenever messages, timestamps or the transcript change
+  function update(): void {
+    const state = pending;
+    if (!state) return;
+    if (Date.now() - state.since > GIVE_UP_MS) {
+      if (__DEBUG__) console.log("[TimeGPT] Gave up on deep link:", state.link);
+      pending = null;
+      return;
+    }
+
+    const target = resolve(state.link, state.since);
+    if (target === null) {
+      pending = null;
+      return;
+    }
+    if (!target) {
+      if (state.link.kind === "time" && graceTimer === null) {
+        graceTimer = setTimeout(() => {
+          graceTimer = null;
+          update();
+        }, TRANSCRIPT_GRACE_MS);
+      }
+      return;
+    }
+
+    const turn = options.getTimestamp(target.id)
+      ? options.messageElements(target.id)[0]?.closest(options.dom.turnSelector)
+      : null;
+    if (!turn) {
+      nudge(state, target.createTime);
+      return;
+    }
+    pending = null;
+    reveal(turn);
+  }
+
+  return { check, update };
+}
@@ -0,0 +1,107 @@
+// TimeGPT — Capture diagnostics for the interceptor.
+// Counters of what was matched, parsed and rejected; each provider adapter
+// brings lightweight runtime checks of the API response shapes it depends
+// on. Collected in every build (not just --debug) and shown in the popup,
+// so when a backend changes a bug report can say exactly what stopped
+// matching.
+
+import type { CaptureDiagnostics, EndpointCounts } from "./types";
+
+// Distinct unknown SSE event keys / failure reasons kept, to stay small
+const MAX_KEYS = 50;
+
+function increment(record: Record<string, number>, key: string): void {
+  if (!(key in record) && Object.keys(record).length >= MAX_KEYS) return;
+  record[key] = (record[key] ?? 0) + 1;
+}
+
+// --- Shape validation helpers for provider adapters ---
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Largest unix time a Date can hold (8.64e15 ms)
+const MAX_UNIX_SECONDS = 8.64e12;
+
+export function isUnixSeconds(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && Math.abs(value) <= MAX_UNIX_SECONDS;
+}
+
+export function isIsoTime(value: unknown): value is string {
+  return typeof value === "string" && !Number.isNaN(Date.parse(value));
+}
+
+// ISO string or unix seconds
+export function isTime(value: unknown): value is string | number {
+  return isUnixSeconds(value) || isIsoTime(value);
+}
+
+// The value if it's a string, for optional fields
+export function readString(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+// --- Counters ---
+
+export function createDiagnostics(publish: (snapshot: CaptureDiagnostics) => void, delayMs = 1000) {
+  const state: CaptureDiagnostics = {
+    endpoints: {},
+    sseEvents: 0,
+    unknownSseEvents: {},
+    validationFailures: {},
+    lastFailure: null,
+  };
+  let publishTimer: ReturnType<typeof setTimeout> | null = null;
+
+  function changed(): void {
+    if (publishTimer !== null) return;
+    publishTimer = setTimeout(() => {
+      publishTimer = null;
+      publish(structuredClone(state));
+    }, delayMs);
+  }
+
+  function counts(endpoint: string): EndpointCounts {
+    if (!state.endpoints[endpoint]) {
+      state.endpoints[endpoint] = { matched: 0, parsed: 0, invalid: 0, httpErrors: 0 };
+    }
+    return state.endpoints[endpoint];
+  }
+
+  return {
+    matched(endpoint: string): void {
+      counts(endpoint).matched++;
+      changed();
+    },
+    parsed(endpoint: string): void {
+      counts(endpoint).parsed++;
+      changed();
+    },
+    httpError(endpoint: string): void {
+      counts(endpoint).httpErrors++;
+      changed();
+    },
+    invalid(endpoint: string, reason: string): void {
+      counts(endpoint).invalid++;
+      const key = `${endpoint}: ${reason}`;
+      increment(state.validationFailures, key);
+      state.lastFailure = { reason: key, at: Date.now() / 1000 };
+      if (__DEBUG__) console.warn(`[TimeGPT] Unexpected response shape — ${key}`);
+      changed();
+    },
+    // `unknown` describes an event the provider didn't recognize
+    sseEvent(unknown: string | null): void {
+      state.sseEvents++;
+      if (unknown) {
+        increment(state.unknownSseEvents, unknown);
+        if (__DEBUG__) console.log(`[TimeGPT] Unknown SSE event: ${unknown}`);
+      }
+      changed();
+    },
+    // Re-sends the current counters, e.g. once the content script connects
+    publishNow(): void {
+      publish(structuredClone(state));
+    },
+  };
+}
@@ -0,0 +1,89 @@
+// TimeGPT — Index of the page elements timestamps attach to.
+// Filled incrementally from MutationObserver records, so updates only
+// touch the elements involved instead of rescanning the whole document.
+
+import type { ProviderDom } from "./providers";
+
+export interface ScanResult {
+  messageIds: string[];
+  conversationIds: string[];
+}
+
+function add<T extends Element>(map: Map<string, Set<T>>, id: string, el: T): boolean {
+  let set = map.get(id);
+  if (!set) {
+    set = new Set();
+    map.set(id, set);
+  }
+  if (set.has(el)) return false;
+  set.add(el);
+  return true;
+}
+
+function connected<T extends Element>(set: Set<T> | undefined): T[] {
+  if (!set) return [];
+  return [...set].filter((el) => el.isConnected);
+}
+
+function prune<T extends Element>(map: Map<string, Set<T>>): void {
+  for (const [id, set] of map) {
+    for (const el of set) {
+      if (!el.isConnected) set.delete(el);
+    }
+    if (set.size === 0) map.delete(id);
+  }
+}
+
+export function createDomIndex(dom: ProviderDom) {
+  // message ID → message elements
+  const messages = new Map<string, Set<Element>>();
+  // conversation ID → links in the sidebar, project pages and search
+  const conversations = new Map<string, Set<HTMLAnchorElement>>();
+
+  function indexMessage(el: Element, found: ScanResult): void {
+    const id = dom.messageId(el);
+    if (id && add(messages, id, el)) found.messageIds.push(id);
+  }
+
+  function indexLink(link: HTMLAnchorElement, found: ScanResult): void {
+    const href = link.getAttribute("href");
+    const id = href ? dom.conversationId(href) : null;
+    if (id && add(conversations, id, link)) found.conversationIds.push(id);
+  }
+
+  return {
+    // Indexes `root` and its descendants; returns the IDs of newly seen elements
+    scan(root: Element): ScanResult {
+      const found: ScanResult = { messageIds: [], conversationIds: [] };
+      if (root.matches(dom.messageSelector)) indexMessage(root, found);
+      if (root.matches(dom.conversationLinkSelector)) indexLink(root as HTMLAnchorElement, found);
+      for (const el of root.querySelectorAll(dom.messageSelector)) indexMessage(el, found);
+      for (const el of root.querySelectorAll<HTMLAnchorElement>(dom.conversationLinkSelector)) {
+        indexLink(el, found);
+      }
+      return found;
+    },
+
+    // Drops elements React has removed from the page
+    prune(): void {
+      prune(messages);
+      prune(conversations);
+    },
+
+    messageElements(id: string): Element[] {
+      return connected(messages.get(id));
+    },
+
+    sidebarLinks(id: string): HTMLAnchorElement[] {
+      return connected(conversations.get(id));
+    },
+
+    messageIds(): string[] {
+      return [...messages.keys()];
+    },
+
+    conversationIds(): string[] {
+      return [...conversations.keys()];
+    },
+  };
+}
@@ -0,0 +1,121 @@
+// TimeGPT — Builds downloadable transcripts of a conversation with timestamps.
+
+import type { ConversationDetail, ExportFormat, TranscriptMessage } from "./types";
+
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+export function buildExport(
+  detail: ConversationDetail,
+  format: ExportFormat,
+  url: string
+): ExportFile {
+  const base = `${slugify(detail.title || "conversation")}-${detail.id.slice(0, 8)}`;
+
+  switch (format) {
+    case "json":
+      return {
+        filename: `${base}.json`,
+        mimeType: "application/json",
+        content: toJson(detail, url),
+      };
+    case "csv":
+      return {
+        filename: `${base}.csv`,
+        mimeType: "text/csv",
+        content: toCsv(detail),
+      };
+    default:
+      return {
+        filename: `${base}.md`,
+        mimeType: "text/markdown",
+        content: toMarkdown(detail, url),
+      };
+  }
+}
+
+// Always UTC with an explicit "Z" so exported times are unambiguous
+export function isoTime(unixSeconds: number | null): string {
+  if (unixSeconds == null) return "";
+  return new Date(unixSeconds * 1000).toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
+export function roleLabel(role: string | null): string {
+  switch (role) {
+    case "user":
+      return "User";
+    case "assistant":
+      return "Assistant";
+    case "tool":
+      return "Tool";
+    case "system":
+      return "System";
+    default:
+      return role || "Unknown";
+  }
+}
+
+function toMarkdown(detail: ConversationDetail, url: string): string {
+  const lines: string[] = [`# ${detail.title || "Untitled conversation"}`, ""];
+  lines.push(`- URL: ${url}`);
+  if (detail.createTime != null) lines.push(`- Created: ${isoTime(detail.createTime)}`);
+  if (detail.updateTime != null) lines.push(`- Updated: ${isoTime(detail.updateTime)}`);
+  lines.push(`- Exported: ${isoTime(Date.now() / 1000)}`, "");
+
+  for (const msg of detail.messages) {
+    const time = msg.createTime != null ? ` · ${isoTime(msg.createTime)}` : "";
+    lines.push(`## ${roleLabel(msg.role)}${time}`, "", msg.text, "");
+  }
+  return lines.join("\n");
+}
+
+function toJson(detail: ConversationDetail, url: string): string {
+  return JSON.stringify(
+    {
+      id: detail.id,
+      title: detail.title,
+      url,
+      createTime: isoTime(detail.createTime) || null,
+      updateTime: isoTime(detail.updateTime) || null,
+      exportedAt: isoTime(Date.now() / 1000),
+      messages: detail.messages.map((msg: TranscriptMessage) => ({
+        id: msg.id,
+        role: msg.role,
+        time: isoTime(msg.createTime) || null,
+        text: msg.text,
+      })),
+    },
+    null,
+    2
+  );
+}
+
+function toCsv(detail: ConversationDetail): string {
+  const rows = [["time", "role", "text"]];
+  for (const msg of detail.messages) {
+    rows.push([isoTime(msg.createTime), msg.role ?? "", msg.text]);
+  }
+  // RFC 4180: CRLF line endings, quote every field, double embedded quotes
+  return rows
+    .map((row) => row.map((field) => `"${csvSafe(field).replace(/"/g, '""')}"`).join(","))
+    .join("\r\n");
+}
+
+// Spreadsheets run fields starting with these as formulas; a leading
+// apostrophe makes them plain text
+function csvSafe(field: string): string {
+  return /^[=+\-@\t\r]/.test(field) ? `'${field}` : field;
+}
+
+function slugify(text: string): string {
+  return (
+    text
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 60) || "conversation"
+  );
+}
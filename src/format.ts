@@ -0,0 +1,526 @@
+// TimeGPT — Timestamp formatting shared by the content script and popup.
+
+import type { TimestampFormat } from "./types";
+
+// Explicit locale and IANA time zone. Undefined means the browser default.
+export interface ZoneOptions {
+  locale?: string;
+  timeZone?: string;
+}
+
+export function formatTimestamp(
+  unixSeconds: number,
+  format: TimestampFormat,
+  customPattern: string,
+  zone: ZoneOptions = {},
+  relativeThresholdDays = DEFAULT_RELATIVE_THRESHOLD_DAYS
+): string {
+  const date = new Date(unixSeconds * 1000);
+
+  switch (format) {
+    case "relative":
+      return formatRelative(date, zone, relativeThresholdDays);
+    case "datetime24":
+      return formatParts(date, {
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        hour12: false,
+      }, zone);
+    case "datetime12":
+      return formatParts(date, {
+        year: "numeric",
+        month: "short",
+        day: "numeric",
+        hour: "numeric",
+        minute: "2-digit",
+        hour12: true,
+      }, zone);
+    case "time24":
+      return formatParts(date, {
+        hour: "2-digit",
+        minute: "2-digit",
+        hour12: false,
+      }, zone);
+    case "time12":
+      return formatParts(date, {
+        hour: "numeric",
+        minute: "2-digit",
+        hour12: true,
+      }, zone);
+    case "iso":
+      return formatIso(date, zone);
+    case "custom": {
+      const result = formatPattern(date, customPattern, zone);
+      // An invalid pattern should never blank out the UI
+      return result ?? formatRelative(date, zone, relativeThresholdDays);
+    }
+    default:
+      return formatRelative(date, zone, relativeThresholdDays);
+  }
+}
+
+// Without an explicit zone this keeps the original UTC-based output.
+// With one, the local time in that zone is shown with its offset.
+export function formatIso(date: Date, zone: ZoneOptions = {}): string {
+  if (!zone.timeZone || zone.timeZone === "UTC") {
+    return date.toISOString().slice(0, 19);
+  }
+  const v = dateValues(date, zone);
+  return (
+    `${v.year}-${pad(v.month)}-${pad(v.day)}` +
+    `T${pad(v.hour)}:${pad(v.minute)}:${pad(v.second)}${v.offset}`
+  );
+}
+
+// Full date for tooltips, e.g. "1/15/2025, 2:30:00 PM"
+export function formatFull(date: Date, zone: ZoneOptions = {}): string {
+  return date.toLocaleString(zone.locale, { timeZone: zone.timeZone });
+}
+
+// Short zone name, e.g. "CET" or "GMT+1"
+export function zoneAbbreviation(date: Date, zone: ZoneOptions = {}): string {
+  return partsOf(date, { timeZoneName: "short" }, zone).timeZoneName ?? "";
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isValidLocale(locale: string): boolean {
+  try {
+    return Intl.DateTimeFormat.supportedLocalesOf(locale).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+export function isoToUnix(isoString: string): number {
+  return new Date(isoString).getTime() / 1000;
+}
+
+// --- Parsing times typed by people (e.g. in links) ---
+const WALL_CLOCK = /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2}))?)?$/;
+
+// Minutes `timeZone` is ahead of UTC at `date`
+function zoneOffsetMinutes(date: Date, timeZone: string): number {
+  const v = partsOf(date, {
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+    hourCycle: "h23",
+  }, { locale: "en-US", timeZone });
+  const wallClock = Date.UTC(
+    Number(v.year), Number(v.month) - 1, Number(v.day),
+    Number(v.hour) % 24, Number(v.minute), Number(v.second)
+  );
+  return Math.round((wallClock - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+// Unix seconds for "2025-01-15", "2025-01-15T14:30" or "…T14:30:05".
+// Without an offset ("Z", "+01:00") the time is read as wall-clock time
+// in `zone.timeZone` (browser time zone if unset). Null if invalid.
+export function parseDateTime(text: string, zone: ZoneOptions = {}): number | null {
+  const value = text.trim();
+  if (/T.*(Z|[+-]\d{2}:?\d{2})$/i.test(value)) {
+    const ms = Date.parse(value);
+    return Number.isNaN(ms) ? null : ms / 1000;
+  }
+
+  const match = value.match(WALL_CLOCK);
+  if (!match) return null;
+  const [year, month, day, hour, minute, second] = match.slice(1).map((part) => Number(part ?? 0));
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || minute > 59 || second > 59) {
+    return null;
+  }
+
+  if (!zone.timeZone) {
+    return new Date(year, month - 1, day, hour, minute, second).getTime() / 1000;
+  }
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  // The zone's offset at that instant; a second pass settles DST changes
+  let ms = asUtc - zoneOffsetMinutes(new Date(asUtc), zone.timeZone) * 60000;
+  ms = asUtc - zoneOffsetMinutes(new Date(ms), zone.timeZone) * 60000;
+  return ms / 1000;
+}
+
+// --- Calendar days in a time zone ---
+
+// Day `date` falls on in `zone.timeZone` (browser time zone if unset), as
+// "YYYY-MM-DD"
+export function calendarDay(date: Date, zone: ZoneOptions = {}): string {
+  const v = partsOf(date, {
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+  }, { locale: "en-US", timeZone: zone.timeZone });
+  return `${v.year}-${pad(Number(v.month))}-${pad(Number(v.day))}`;
+}
+
+// Day and hour of many unix times in `zone.timeZone`, for bulk use: one
+// formatter is reused, and results are cached per quarter hour (every UTC
+// offset is a multiple of 15 minutes)
+export function createZonedClock(zone: ZoneOptions = {}): (unixSeconds: number) => { day: string; hour: number } {
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    hourCycle: "h23",
+    timeZone: zone.timeZone,
+  });
+  const cache = new Map<number, { day: string; hour: number }>();
+  return (unixSeconds) => {
+    const quarter = Math.floor(unixSeconds / 900);
+    let result = cache.get(quarter);
+    if (!result) {
+      const v: Partial<Record<Intl.DateTimeFormatPartTypes, string>> = {};
+      for (const part of formatter.formatToParts(new Date(quarter * 900 * 1000))) v[part.type] = part.value;
+      result = { day: `${v.year}-${v.month}-${v.day}`, hour: Number(v.hour) };
+      cache.set(quarter, result);
+    }
+    return result;
+  };
+}
+
+// The "YYYY-MM-DD" day `days` after `day` (negative for earlier days)
+export function addDays(day: string, days: number): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+// Day of the week of a "YYYY-MM-DD" day, 0 = Sunday
+export function weekdayOf(day: string): number {
+  return new Date(`${day}T00:00:00Z`).getUTCDay();
+}
+
+// Formats a "YYYY-MM-DD" day itself, whatever the time zone
+export function formatDay(
+  day: string,
+  options: Intl.DateTimeFormatOptions,
+  locale?: string
+): string {
+  return formatParts(new Date(`${day}T12:00:00Z`), options, { locale, timeZone: "UTC" });
+}
+
+// --- Relative time ---
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Largest first; each unit is used once the elapsed time reaches its size
+const RELATIVE_UNITS: Array<[Intl.RelativeTimeFormatUnit, number]> = [
+  ["year", 365 * DAY_MS],
+  ["month", 30 * DAY_MS],
+  ["week", 7 * DAY_MS],
+  ["day", DAY_MS],
+  ["hour", HOUR_MS],
+  ["minute", MINUTE_MS],
+];
+
+// Days after which relative times switch to an absolute date; 0 = never
+export const DEFAULT_RELATIVE_THRESHOLD_DAYS = 30;
+
+function pastThreshold(elapsedMs: number, thresholdDays: number): boolean {
+  return thresholdDays > 0 && elapsedMs >= thresholdDays * DAY_MS;
+}
+
+// Localized through Intl.RelativeTimeFormat, e.g. "5 minutes ago",
+// "yesterday", "last week", "vor 3 Tagen"
+export function formatRelative(
+  date: Date,
+  zone: ZoneOptions = {},
+  thresholdDays = DEFAULT_RELATIVE_THRESHOLD_DAYS,
+  now = Date.now()
+): string {
+  // Clock skew can put fresh messages slightly in the future
+  const elapsed = Math.max(0, now - date.getTime());
+
+  if (pastThreshold(elapsed, thresholdDays)) {
+    return formatParts(date, {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    }, zone);
+  }
+
+  // numeric: "auto" gives "now", "yesterday", "last week" instead of "1 … ago"
+  const formatter = new Intl.RelativeTimeFormat(zone.locale, { numeric: "auto" });
+  const match = RELATIVE_UNITS.find(([, size]) => elapsed >= size);
+  if (!match) return formatter.format(0, "second");
+  const [unit, size] = match;
+  return formatter.format(-Math.floor(elapsed / size), unit);
+}
+
+// When (ms since epoch) formatRelative's text for `unixSeconds` next
+// changes, or null once it has switched to a fixed absolute date
+export function nextRelativeChange(
+  unixSeconds: number,
+  thresholdDays = DEFAULT_RELATIVE_THRESHOLD_DAYS,
+  now = Date.now()
+): number | null {
+  const time = unixSeconds * 1000;
+  const elapsed = Math.max(0, now - time);
+  if (pastThreshold(elapsed, thresholdDays)) return null;
+
+  const index = RELATIVE_UNITS.findIndex(([, size]) => elapsed >= size);
+  // "now" lasts until the first minute
+  if (index === -1) return time + MINUTE_MS;
+
+  const size = RELATIVE_UNITS[index][1];
+  let next = time + (Math.floor(elapsed / size) + 1) * size;
+  // Week → month and month → year boundaries don't line up with the
+  // smaller unit, and neither does the threshold
+  if (index > 0) next = Math.min(next, time + RELATIVE_UNITS[index - 1][1]);
+  if (thresholdDays > 0) next = Math.min(next, time + thresholdDays * DAY_MS);
+  return next;
+}
+
+export function formatDuration(seconds: number): string {
+  if (seconds < 10) return `${seconds.toFixed(1)}s`;
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${Math.round(seconds % 60)}s`;
+}
+
+// Two-unit duration for longer spans, e.g. "3d 4h", "2h 5m", "4m 10s"
+export function formatSpan(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const days = Math.floor(total / 86400);
+  const hours = Math.floor((total % 86400) / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${secs}s`;
+  return `${secs}s`;
+}
+
+// Coarse elapsed time, e.g. "45s", "4m", "2h", "3d"
+export function formatElapsed(seconds: number): string {
+  if (seconds < 60) return `${Math.max(0, Math.round(seconds))}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h`;
+  return `${Math.floor(hours / 24)}d`;
+}
+
+export function formatParts(
+  date: Date,
+  options: Intl.DateTimeFormatOptions,
+  zone: ZoneOptions = {}
+): string {
+  return new Intl.DateTimeFormat(zone.locale, {
+    ...options,
+    timeZone: zone.timeZone,
+  }).format(date);
+}
+
+// =============================================
+// CUSTOM PATTERNS (e.g. "ddd D MMM, HH:mm:ss")
+// =============================================
+
+// Supported tokens, longest first so "MMMM" wins over "MM"
+const TOKENS = [
+  "YYYY", "YY",
+  "MMMM", "MMM", "MM", "M",
+  "dddd", "ddd",
+  "DD", "D",
+  "HH", "H", "hh", "h",
+  "mm", "m",
+  "ss", "s",
+  "A", "a",
+  "Z", "z",
+] as const;
+
+type PatternToken = (typeof TOKENS)[number];
+
+type PatternPart =
+  | { kind: "token"; token: PatternToken }
+  | { kind: "literal"; text: string };
+
+export type ParsedPattern =
+  | { ok: true; parts: PatternPart[] }
+  | { ok: false; error: string };
+
+// Splits a pattern into tokens and literal text. Text inside [brackets]
+// is always literal; any other letters must be a known token.
+export function parsePattern(pattern: string): ParsedPattern {
+  if (!pattern.trim()) return { ok: false, error: "Pattern is empty" };
+
+  const parts: PatternPart[] = [];
+  let i = 0;
+
+  while (i < pattern.length) {
+    const ch = pattern[i];
+
+    if (ch === "[") {
+      const end = pattern.indexOf("]", i + 1);
+      if (end === -1) return { ok: false, error: `Unclosed "[" at position ${i + 1}` };
+      parts.push({ kind: "literal", text: pattern.slice(i + 1, end) });
+      i = end + 1;
+      continue;
+    }
+
+    if (/[A-Za-z]/.test(ch)) {
+      const token = TOKENS.find((t) => pattern.startsWith(t, i));
+      if (!token) {
+        const word = pattern.slice(i).match(/^[A-Za-z]+/)![0];
+        return {
+          ok: false,
+          error: `Unknown token "${word}" — wrap literal text in [brackets]`,
+        };
+      }
+      parts.push({ kind: "token", token });
+      i += token.length;
+      continue;
+    }
+
+    parts.push({ kind: "literal", text: ch });
+    i++;
+  }
+
+  return { ok: true, parts };
+}
+
+// Returns null when the pattern is invalid
+export function formatPattern(
+  date: Date,
+  pattern: string,
+  zone: ZoneOptions = {}
+): string | null {
+  const parsed = parsePattern(pattern);
+  if (!parsed.ok) return null;
+
+  const values = dateValues(date, zone);
+  return parsed.parts
+    .map((part) => (part.kind === "literal" ? part.text : formatToken(part.token, values)))
+    .join("");
+}
+
+interface DateValues {
+  year: string;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  monthShort: string;
+  monthLong: string;
+  weekdayShort: string;
+  weekdayLong: string;
+  dayPeriod: string;
+  // e.g. "+01:00"
+  offset: string;
+  // e.g. "CET"
+  zoneName: string;
+}
+
+// Reads every field once through Intl.DateTimeFormat parts, so names and
+// numbers come out localized the same way as the preset formats.
+function dateValues(date: Date, zone: ZoneOptions): DateValues {
+  // Numbers are read in en-US so they always come back as Latin digits
+  const numeric = partsOf(date, {
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+    hourCycle: "h23",
+  }, { locale: "en-US", timeZone: zone.timeZone });
+  const short = partsOf(date, { month: "short", weekday: "short", timeZoneName: "short" }, zone);
+  const long = partsOf(date, { month: "long", weekday: "long" }, zone);
+  const period = partsOf(date, { hour: "numeric", hour12: true }, zone);
+
+  const year = Number(numeric.year);
+  const month = Number(numeric.month);
+  const day = Number(numeric.day);
+  // Some engines report midnight as "24" even with h23
+  const hour = Number(numeric.hour) % 24;
+  const minute = Number(numeric.minute);
+  const second = Number(numeric.second);
+
+  // Offset = wall-clock time in the zone minus the actual instant
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  const offsetMin = Math.round((wallClock - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+  const sign = offsetMin < 0 ? "-" : "+";
+  const abs = Math.abs(offsetMin);
+
+  return {
+    year: numeric.year ?? "",
+    month,
+    day,
+    hour,
+    minute,
+    second,
+    monthShort: short.month ?? "",
+    monthLong: long.month ?? "",
+    weekdayShort: short.weekday ?? "",
+    weekdayLong: long.weekday ?? "",
+    dayPeriod: period.dayPeriod ?? (hour < 12 ? "AM" : "PM"),
+    offset: `${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`,
+    zoneName: short.timeZoneName ?? "",
+  };
+}
+
+function partsOf(
+  date: Date,
+  options: Intl.DateTimeFormatOptions,
+  zone: ZoneOptions = {}
+): Partial<Record<Intl.DateTimeFormatPartTypes, string>> {
+  const result: Partial<Record<Intl.DateTimeFormatPartTypes, string>> = {};
+  const formatter = new Intl.DateTimeFormat(zone.locale, {
+    ...options,
+    timeZone: zone.timeZone,
+  });
+  for (const part of formatter.formatToParts(date)) {
+    result[part.type] = part.value;
+  }
+  return result;
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+function formatToken(token: PatternToken, v: DateValues): string {
+  switch (token) {
+    case "YYYY": return v.year;
+    case "YY": return v.year.slice(-2);
+    case "MMMM": return v.monthLong;
+    case "MMM": return v.monthShort;
+    case "MM": return pad(v.month);
+    case "M": return String(v.month);
+    case "dddd": return v.weekdayLong;
+    case "ddd": return v.weekdayShort;
+    case "DD": return pad(v.day);
+    case "D": return String(v.day);
+    case "HH": return pad(v.hour);
+    case "H": return String(v.hour);
+    case "hh": return pad(v.hour % 12 || 12);
+    case "h": return String(v.hour % 12 || 12);
+    case "mm": return pad(v.minute);
+    case "m": return String(v.minute);
+    case "ss": return pad(v.second);
+    case "s": return String(v.second);
+    case "A": return v.dayPeriod.toUpperCase();
+    case "a": return v.dayPeriod.toLowerCase();
+    case "Z": return v.offset;
+    case "z": return v.zoneName;
+  }
+}
@@ -1,15 +1,30 @@
 // TimeGPT — Runs in MAIN world (page context) at document_start.
-// Patches fetch to intercept conversation API responses and extract timestamps.
+// Patches fetch to intercept conversation API responses and extract
+// timestamps, using the provider adapter for the current site.
 
-import type { MessageTimestamp, ConversationTimestamp } from "./types";
+import { acceptContentChannel } from "./channel";
+import { createOutbox } from "./outbox";
+import { createDiagnostics } from "./diagnostics";
+import { providerForHost } from "./providers";
+import type { JsonEndpoint, StreamEndpoint, StreamParser } from "./providers";
 
 (function () {
   "use strict";
 
-  if (__DEBUG__) console.log("[TimeGPT] Interceptor loaded in MAIN world");
+  const provider = providerForHost(window.location.hostname);
+  if (!provider) return;
 
-  const timestampBuffer: Record<string, MessageTimestamp> = {};
-  const conversationBuffer: Record<string, ConversationTimestamp> = {};
+  if (__DEBUG__) console.log(`[TimeGPT] Interceptor loaded in MAIN world (${provider.name})`);
+
+  // Register before any page script runs so the handshake can't be
+  // intercepted; see channel.ts
+  const channel = acceptContentChannel();
+  // Holds everything sent until the content script acknowledges it
+  const outbox = createOutbox(channel.send);
+  // What matched and what didn't, for the popup's diagnostics section
+  const diagnostics = createDiagnostics((snapshot) =>
+    channel.send({ type: "TIMEGPT_DIAGNOSTICS", diagnostics: snapshot })
+  );
 
   const originalFetch = window.fetch;
 
@@ -28,130 +43,95 @@ import type { MessageTimestamp, ConversationTimestamp } from "./types";
       // ignore
     }
 
+    const requestSentAt = Date.now() / 1000;
     const response = await originalFetch.apply(this, args);
 
-    // Match conversation detail endpoint: /backend-api/conversation/{uuid}
-    if (
-      /\/backend-api\/conversation\/[0-9a-f-]{20,}/.test(url) &&
-      !url.includes("/backend-api/conversation/limit") &&
-      !url.includes("/backend-api/conversations")
-    ) {
-      try {
-        const cloned = response.clone();
-        const json = await cloned.json();
-        extractMessageTimestamps(json);
-      } catch {
-        // ignore
-      }
-    }
-
-    // Match conversations list endpoint: /backend-api/conversations?...
-    if (/\/backend-api\/conversations(\?|$)/.test(url)) {
-      try {
-        const cloned = response.clone();
-        const json = await cloned.json();
-        extractConversationTimestamps(json);
-      } catch {
-        // ignore
-      }
+    const endpoint = provider.jsonEndpoints.find((handler) => handler.matches(url));
+    if (endpoint) {
+      await handleJson(endpoint, response, url);
+      return response;
     }
 
-    // Match streaming conversation endpoint: /backend-api/f/conversation
     // Tap into the SSE stream to extract timestamps from new messages.
-    if (
-      /\/backend-api\/f\/conversation$/.test(url) &&
-      response.body &&
-      response.headers.get("content-type")?.includes("text/event-stream")
-    ) {
-      try {
-        return tapSSEStream(response);
-      } catch {
-        // ignore — return original response
+    const stream = provider.stream;
+    if (stream?.matches(url)) {
+      diagnostics.matched(stream.name);
+      if (!response.ok) {
+        diagnostics.httpError(stream.name);
+      } else if (
+        !response.body ||
+        !response.headers.get("content-type")?.includes("text/event-stream")
+      ) {
+        diagnostics.invalid(stream.name, "response is not an event stream");
+      } else {
+        try {
+          return tapSSEStream(response, stream, requestSentAt);
+        } catch {
+          // Return the original response untouched
+          diagnostics.invalid(stream.name, "could not tap response body");
+        }
       }
     }
 
     return response;
   };
 
-  interface ConversationDetailResponse {
-    mapping?: Record<
-      string,
-      {
-        message?: {
-          id?: string;
-          create_time?: number | null;
-          author?: { role?: string };
-        };
-      }
-    >;
-  }
-
-  function extractMessageTimestamps(data: ConversationDetailResponse): void {
-    if (!data?.mapping) return;
-
-    const timestamps: Record<string, MessageTimestamp> = {};
-    let count = 0;
-
-    for (const [_nodeId, node] of Object.entries(data.mapping)) {
-      const msg = node.message;
-      if (!msg?.id || msg.create_time == null) continue;
-
-      timestamps[msg.id] = {
-        createTime: msg.create_time,
-        role: msg.author?.role || null,
-      };
-      count++;
+  async function handleJson(endpoint: JsonEndpoint, response: Response, url: string): Promise<void> {
+    diagnostics.matched(endpoint.name);
+    const json = await readJson(response, endpoint.name);
+    if (json === undefined) return;
+    const problem = endpoint.validate(json);
+    if (problem) {
+      diagnostics.invalid(endpoint.name, problem);
+      return;
     }
-
-    if (count === 0) return;
-
-    if (__DEBUG__) console.log(`[TimeGPT] Captured ${count} message timestamps`);
-    Object.assign(timestampBuffer, timestamps);
-    window.postMessage(
-      { type: "TIMEGPT_TIMESTAMPS", timestamps },
-      window.location.origin
-    );
+    diagnostics.parsed(endpoint.name);
+    runExtractor(endpoint.name, () => endpoint.extract(json, url, outbox));
   }
 
-  interface ConversationsListResponse {
-    items?: Array<{
-      id?: string;
-      create_time?: string;
-      update_time?: string | null;
-      title?: string | null;
-    }>;
+  // Parses a copy of the response body; undefined for HTTP errors and
+  // bodies that aren't JSON (both are counted)
+  async function readJson(response: Response, endpoint: string): Promise<unknown> {
+    if (!response.ok) {
+      diagnostics.httpError(endpoint);
+      return undefined;
+    }
+    try {
+      return await response.clone().json();
+    } catch {
+      diagnostics.invalid(endpoint, "body is not JSON");
+      return undefined;
+    }
   }
 
-  function extractConversationTimestamps(data: ConversationsListResponse): void {
-    if (!data?.items || !Array.isArray(data.items)) return;
-
-    const conversations: Record<string, ConversationTimestamp> = {};
-    let count = 0;
-
-    for (const item of data.items) {
-      if (!item.id || !item.create_time) continue;
-      conversations[item.id] = {
-        createTime: item.create_time,
-        updateTime: item.update_time || null,
-        title: item.title || null,
-      };
-      count++;
+  // The shape was validated, so an exception here is our bug — count it
+  // rather than letting it break the page's own fetch
+  function runExtractor(endpoint: string, extract: () => void): void {
+    try {
+      extract();
+    } catch (err) {
+      diagnostics.invalid(endpoint, `extractor failed: ${err instanceof Error ? err.message : String(err)}`);
     }
+  }
 
-    if (count === 0) return;
+  // --- SSE stream tapping for live messages ---
 
-    if (__DEBUG__) console.log(`[TimeGPT] Captured ${count} conversation timestamps`);
-    Object.assign(conversationBuffer, conversations);
-    window.postMessage(
-      { type: "TIMEGPT_CONVERSATIONS", conversations },
-      window.location.origin
-    );
+  // A tapped stream: the adapter's parser plus whether it was counted
+  interface StreamState {
+    endpoint: StreamEndpoint;
+    parser: StreamParser;
+    finished: boolean;
   }
-  // --- SSE stream tapping for live messages ---
+
   // Wraps the response body to peek at SSE events without consuming them.
-  function tapSSEStream(response: Response): Response {
+  function tapSSEStream(response: Response, endpoint: StreamEndpoint, requestSentAt: number): Response {
     const reader = response.body!.getReader();
     const decoder = new TextDecoder();
+    const state: StreamState = {
+      endpoint,
+      parser: endpoint.open(requestSentAt, outbox),
+      finished: false,
+    };
     let buffer = "";
 
     const stream = new ReadableStream({
@@ -159,7 +139,8 @@ import type { MessageTimestamp, ConversationTimestamp } from "./types";
         const { done, value } = await reader.read();
         if (done) {
           // Process any remaining buffer
-          if (buffer.length > 0) processSSEBuffer(buffer);
+          if (buffer.length > 0) processSSEBuffer(buffer, state);
+          completeStream(state);
           controller.close();
           return;
         }
@@ -170,7 +151,7 @@ import type { MessageTimestamp, ConversationTimestamp } from "./types";
         // Keep the last incomplete part in the buffer
         buffer = parts.pop() || "";
         for (const part of parts) {
-          processSSEEvent(part);
+          processSSEEvent(part, state);
         }
         // Pass the original bytes through untouched
         controller.enqueue(value);
@@ -187,91 +168,72 @@ import type { MessageTimestamp, ConversationTimestamp } from "./types";
     });
   }
 
-  function processSSEBuffer(buf: string): void {
+  function processSSEBuffer(buf: string, state: StreamState): void {
     const parts = buf.split("\n\n");
     for (const part of parts) {
-      processSSEEvent(part);
+      processSSEEvent(part, state);
     }
   }
 
-  function processSSEEvent(raw: string): void {
+  function processSSEEvent(raw: string, state: StreamState): void {
     // SSE format: "data: {json}\n" or "event: type\ndata: {json}\n"
     // ChatGPT uses a custom format where each line is like:
     //   data: {"type": "input_message", ...}
     // or for deltas the event field indicates the type.
-    // We look for JSON payloads in "data:" lines.
+    // We look for JSON payloads in "data:" lines and leave their meaning
+    // to the provider's stream parser.
     let jsonStr = "";
     for (const line of raw.split("\n")) {
       if (line.startsWith("data: ")) {
         jsonStr = line.slice(6);
       }
     }
-    if (!jsonStr || jsonStr === "[DONE]") return;
+    if (!jsonStr) return;
+    if (jsonStr === "[DONE]") {
+      completeStream(state);
+      return;
+    }
 
+    let data: unknown;
     try {
-      const data = JSON.parse(jsonStr);
-      extractStreamTimestamp(data);
+      data = JSON.parse(jsonStr);
     } catch {
-      // not JSON, ignore
+      diagnostics.invalid(state.endpoint.name, "event is not JSON");
+      return;
     }
+    // The page is reading this body, so nothing here may throw into it
+    runExtractor(state.endpoint.name, () => {
+      diagnostics.sseEvent(state.endpoint.classify(data));
+      state.parser.event(data);
+    });
   }
 
-  function extractStreamTimestamp(data: any): void {
-    const timestamps: Record<string, MessageTimestamp> = {};
-
-    // input_message event — user message
-    if (data?.type === "input_message" && data.input_message) {
-      const msg = data.input_message;
-      if (msg.id && msg.create_time != null) {
-        timestamps[msg.id] = {
-          createTime: msg.create_time,
-          role: msg.author?.role || null,
-        };
+  function completeStream(state: StreamState): void {
+    runExtractor(state.endpoint.name, () => {
+      state.parser.finish();
+
+      // Called on [DONE] and again when the body ends; count the stream once
+      if (state.finished) return;
+      state.finished = true;
+      if (state.parser.captured() > 0) {
+        diagnostics.parsed(state.endpoint.name);
+      } else {
+        diagnostics.invalid(state.endpoint.name, "no message timestamps in stream");
       }
-    }
-
-    // delta with message data — covers both formats:
-    // - Second+ turns: {"o": "add", "v": {"message": {...}}}
-    // - First turn (new conversation): {"v": {"message": {...}}, "c": N}
-    if (data?.v?.message) {
-      const msg = data.v.message;
-      if (msg.id && msg.create_time != null) {
-        timestamps[msg.id] = {
-          createTime: msg.create_time,
-          role: msg.author?.role || null,
-        };
-      }
-    }
-
-    if (Object.keys(timestamps).length === 0) return;
-
-    if (__DEBUG__) {
-      console.log("[TimeGPT] Captured streaming timestamps:", Object.keys(timestamps));
-    }
-    Object.assign(timestampBuffer, timestamps);
-    window.postMessage(
-      { type: "TIMEGPT_TIMESTAMPS", timestamps },
-      window.location.origin
-    );
+    });
   }
 
-  // Listen for drain requests from the content script (ISOLATED world).
-  // This avoids inline script injection which violates CSP.
-  window.addEventListener("message", (event: MessageEvent) => {
-    if (event.origin !== window.location.origin) return;
-    if (event.data?.type !== "TIMEGPT_DRAIN_REQUEST") return;
-
-    if (Object.keys(timestampBuffer).length > 0) {
-      window.postMessage(
-        { type: "TIMEGPT_TIMESTAMPS", timestamps: timestampBuffer },
-        window.location.origin
-      );
-    }
-    if (Object.keys(conversationBuffer).length > 0) {
-      window.postMessage(
-        { type: "TIMEGPT_CONVERSATIONS", conversations: conversationBuffer },
-        window.location.origin
-      );
+  // Replay what hasn't been acknowledged when the content script asks —
+  // it may connect after the first API responses have already arrived.
+  channel.onMessage((message) => {
+    switch (message.type) {
+      case "TIMEGPT_DRAIN_REQUEST":
+        outbox.drain();
+        diagnostics.publishNow();
+        break;
+      case "TIMEGPT_ACK":
+        outbox.ack(message.seq);
+        break;
     }
   });
 })();
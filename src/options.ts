@@ -0,0 +1,304 @@
+// TimeGPT options page — every setting, keyboard shortcuts, named profiles
+// and JSON import/export
+
+import type { SettingField, TimegptSettings } from "./types";
+import {
+  DEFAULT_SETTINGS,
+  SETTING_FIELDS,
+  applyProfile,
+  buildSettingsExport,
+  deleteProfile,
+  getActiveProfile,
+  importSettings,
+  loadProfiles,
+  loadSettings,
+  parseSettingsImport,
+  sameSettings,
+  saveProfile,
+  saveSettings,
+  MAX_PROFILE_NAME,
+} from "./settings";
+
+const settingsEl = document.getElementById("settings")!;
+const profilesEl = document.getElementById("profiles")!;
+const profileNameInput = document.getElementById("profile-name") as HTMLInputElement;
+const saveProfileBtn = document.getElementById("save-profile") as HTMLButtonElement;
+const exportBtn = document.getElementById("export-settings") as HTMLButtonElement;
+const importInput = document.getElementById("import-settings") as HTMLInputElement;
+const resetBtn = document.getElementById("reset-settings") as HTMLButtonElement;
+const statusEl = document.getElementById("status")!;
+const shortcutsEl = document.getElementById("shortcuts")!;
+const editShortcutsBtn = document.getElementById("edit-shortcuts") as HTMLButtonElement;
+
+let current: TimegptSettings = DEFAULT_SETTINGS;
+// Refreshes each control from `current`
+const controls: Array<() => void> = [];
+
+function showStatus(text: string, isError = false): void {
+  statusEl.textContent = text;
+  statusEl.classList.toggle("error", isError);
+}
+
+// Storage calls fail when the sync quota is used up, among other things
+function showError(err: unknown): void {
+  showStatus(err instanceof Error ? err.message : String(err), true);
+}
+
+// --- Settings, rendered from the schema ---
+function renderFields(): void {
+  const sections = new Map<string, HTMLElement>();
+  for (const field of SETTING_FIELDS) {
+    let section = sections.get(field.section);
+    if (!section) {
+      const heading = document.createElement("h2");
+      heading.textContent = field.section;
+      section = document.createElement("div");
+      section.className = "fields";
+      settingsEl.append(heading, section);
+      sections.set(field.section, section);
+    }
+    section.appendChild(renderField(field));
+  }
+}
+
+function renderField(field: SettingField): HTMLElement {
+  const row = document.createElement("div");
+  row.className = "field";
+  const id = `setting-${field.key}`;
+  const label = document.createElement("label");
+  label.htmlFor = id;
+  label.textContent = field.label;
+
+  if (field.kind === "toggle") {
+    const input = document.createElement("input");
+    input.type = "checkbox";
+    input.className = "toggle";
+    input.id = id;
+    input.addEventListener("change", () => save({ [field.key]: input.checked }));
+    controls.push(() => (input.checked = current[field.key] as boolean));
+    row.append(label, input);
+    return row;
+  }
+
+  if (field.kind === "select") {
+    const select = document.createElement("select");
+    select.id = id;
+    for (const [value, text] of field.options ?? []) {
+      select.appendChild(new Option(text, value));
+    }
+    // Numeric settings are stored as numbers
+    const isNumber = typeof DEFAULT_SETTINGS[field.key] === "number";
+    select.addEventListener("change", () =>
+      save({ [field.key]: isNumber ? Number(select.value) : select.value })
+    );
+    controls.push(() => (select.value = String(current[field.key])));
+    row.append(label, select);
+    return row;
+  }
+
+  const wrapper = document.createElement("div");
+  wrapper.className = "text-field";
+  const input = document.createElement("input");
+  input.type = "text";
+  input.id = id;
+  input.spellcheck = false;
+  input.autocomplete = "off";
+  if (field.placeholder) input.placeholder = field.placeholder;
+  const error = document.createElement("div");
+  error.className = "field-error";
+  error.setAttribute("aria-live", "polite");
+  wrapper.append(input, error);
+
+  const validate = (): boolean => {
+    const message = field.validate?.(input.value.trim()) ?? null;
+    input.setAttribute("aria-invalid", String(message !== null));
+    error.textContent = message ?? "";
+    return message === null;
+  };
+
+  // Debounced — chrome.storage.sync limits writes per minute
+  let saveTimer: ReturnType<typeof setTimeout> | null = null;
+  input.addEventListener("input", () => {
+    if (saveTimer !== null) clearTimeout(saveTimer);
+    if (!validate()) return;
+    saveTimer = setTimeout(() => save({ [field.key]: input.value.trim() }), 500);
+  });
+  controls.push(() => {
+    // Don't overwrite what the user is typing
+    if (document.activeElement === input) return;
+    input.value = current[field.key] as string;
+    validate();
+  });
+  row.append(label, wrapper);
+  return row;
+}
+
+function save(patch: Partial<TimegptSettings>): void {
+  saveSettings(patch)
+    .then(() => showStatus("Saved"))
+    .catch(showError);
+}
+
+// --- Keyboard shortcuts (assigned in chrome://extensions/shortcuts) ---
+function renderShortcuts(): void {
+  chrome.commands.getAll((commands) => {
+    shortcutsEl.replaceChildren(
+      ...commands
+        .filter((command) => command.description)
+        .map((command) => {
+          const row = document.createElement("div");
+          row.className = "field";
+          const label = document.createElement("span");
+          label.textContent = command.description!;
+          const keys = document.createElement("kbd");
+          keys.textContent = command.shortcut || "Not set";
+          row.append(label, keys);
+          return row;
+        })
+    );
+  });
+}
+
+editShortcutsBtn.addEventListener("click", () => {
+  chrome.tabs.create({ url: "chrome://extensions/shortcuts" });
+});
+
+// Shortcuts may have been changed in the other tab
+window.addEventListener("focus", renderShortcuts);
+
+// --- Profiles ---
+function renderProfiles(profiles: Record<string, TimegptSettings>, active: string | null): void {
+  const names = Object.keys(profiles).sort((a, b) => a.localeCompare(b));
+  if (names.length === 0) {
+    const empty = document.createElement("p");
+    empty.className = "empty-state";
+    empty.textContent = "No profiles yet. Save the current settings under a name to switch back to them later.";
+    profilesEl.replaceChildren(empty);
+    return;
+  }
+
+  profilesEl.replaceChildren(
+    ...names.map((name) => {
+      const row = document.createElement("div");
+      row.className = "profile";
+      const label = document.createElement("span");
+      label.className = "profile-name";
+      label.textContent = name;
+      if (name === active) {
+        const badge = document.createElement("span");
+        badge.className = "profile-badge";
+        badge.textContent = sameSettings(current, profiles[name]) ? "active" : "active, modified";
+        label.appendChild(badge);
+      }
+
+      const apply = document.createElement("button");
+      apply.type = "button";
+      apply.textContent = "Apply";
+      apply.addEventListener("click", () => {
+        applyProfile(name)
+          .then((applied) =>
+            showStatus(applied ? `Applied "${name}"` : `Profile "${name}" no longer exists`, !applied)
+          )
+          .catch(showError);
+      });
+
+      const remove = document.createElement("button");
+      remove.type = "button";
+      remove.textContent = "Delete";
+      remove.addEventListener("click", () => {
+        if (!confirm(`Delete the profile "${name}"?`)) return;
+        deleteProfile(name)
+          .then(() => showStatus(`Deleted "${name}"`))
+          .catch(showError);
+      });
+
+      row.append(label, apply, remove);
+      return row;
+    })
+  );
+}
+
+saveProfileBtn.addEventListener("click", () => {
+  const name = profileNameInput.value.trim();
+  if (!name) {
+    showStatus("Enter a name for the profile", true);
+    return;
+  }
+  if (name.length > MAX_PROFILE_NAME) {
+    showStatus(`Profile names can be at most ${MAX_PROFILE_NAME} characters`, true);
+    return;
+  }
+  loadProfiles()
+    .then((profiles) => {
+      if (profiles[name] && !confirm(`Replace the profile "${name}" with the current settings?`)) return;
+      return saveProfile(name, current).then(() => {
+        profileNameInput.value = "";
+        showStatus(`Saved profile "${name}"`);
+      });
+    })
+    .catch(showError);
+});
+
+// --- Import / export ---
+exportBtn.addEventListener("click", () => {
+  loadProfiles()
+    .then((profiles) => {
+      const file = buildSettingsExport(current, profiles);
+      const url = URL.createObjectURL(
+        new Blob([JSON.stringify(file, null, 2)], { type: "application/json" })
+      );
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = "timegpt-settings.json";
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+      showStatus("Exported settings");
+    })
+    .catch(showError);
+});
+
+importInput.addEventListener("change", () => {
+  const file = importInput.files?.[0];
+  importInput.value = "";
+  if (!file) return;
+  file
+    .text()
+    .then((text) => {
+      const parsed = parseSettingsImport(text);
+      if (!parsed.ok) {
+        showStatus(parsed.error, true);
+        return;
+      }
+      const count = Object.keys(parsed.profiles).length;
+      const profileNote = count > 0 ? ` and add ${count} profile${count === 1 ? "" : "s"}` : "";
+      if (!confirm(`Replace your current settings${profileNote}?`)) return;
+      return importSettings(parsed.settings, parsed.profiles).then(() => showStatus(`Imported ${file.name}`));
+    })
+    .catch(showError);
+});
+
+resetBtn.addEventListener("click", () => {
+  if (!confirm("Reset every setting to its default? Profiles are kept.")) return;
+  saveSettings(DEFAULT_SETTINGS)
+    .then(() => showStatus("Settings reset"))
+    .catch(showError);
+});
+
+// --- Load, and follow changes made in the popup or another tab ---
+function load(): void {
+  Promise.all([loadSettings(), loadProfiles(), getActiveProfile()])
+    .then(([settings, profiles, active]) => {
+      current = settings;
+      controls.forEach((refresh) => refresh());
+      renderProfiles(profiles, active);
+    })
+    .catch(showError);
+}
+
+chrome.storage.onChanged.addListener((_changes, areaName) => {
+  if (areaName === "sync") load();
+});
+
+renderFields();
+renderShortcuts();
+load();
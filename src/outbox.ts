@@ -0,0 +1,121 @@
+// TimeGPT — Bounded, acknowledged buffer for data the interceptor sends to
+// the content script.
+//
+// Every batch carries an increasing sequence number. Entries stay buffered
+// until the content script acknowledges a sequence number at or past the
+// batch that last carried them, so a drain only replays what hasn't been
+// received yet. If the content script never acknowledges (e.g. it isn't
+// running), each buffer is capped and the least recently updated entries
+// are dropped first.
+
+import type {
+  MessageTimestamp,
+  ConversationTimestamp,
+  ConversationDetail,
+  TimegptInterceptorMessage,
+} from "./types";
+
+export const MAX_BUFFERED_MESSAGES = 5000;
+export const MAX_BUFFERED_CONVERSATIONS = 2000;
+// Details hold full transcripts, so keep only the most recent few
+export const MAX_BUFFERED_DETAILS = 10;
+
+interface Buffered<T> {
+  value: T;
+  // Sequence number of the last batch that carried this value
+  seq: number;
+}
+
+export function createOutbox(send: (message: TimegptInterceptorMessage) => void) {
+  // Maps keep insertion order; re-inserting on update makes them LRU
+  const messages = new Map<string, Buffered<MessageTimestamp>>();
+  const conversations = new Map<string, Buffered<ConversationTimestamp>>();
+  const details = new Map<string, Buffered<ConversationDetail>>();
+  let seq = 0;
+
+  function put<T>(buffer: Map<string, Buffered<T>>, id: string, value: T, limit: number, batch: number): void {
+    buffer.delete(id);
+    buffer.set(id, { value, seq: batch });
+    if (buffer.size > limit) {
+      // Oldest first
+      const oldest = buffer.keys().next().value as string;
+      buffer.delete(oldest);
+      if (__DEBUG__) console.log(`[TimeGPT] Outbox full, dropped unacknowledged entry ${oldest}`);
+    }
+  }
+
+  function values<T>(buffer: Map<string, Buffered<T>>): Record<string, T> {
+    const record: Record<string, T> = {};
+    for (const [id, entry] of buffer) record[id] = entry.value;
+    return record;
+  }
+
+  function release<T>(buffer: Map<string, Buffered<T>>, upTo: number): void {
+    for (const [id, entry] of buffer) {
+      if (entry.seq <= upTo) buffer.delete(id);
+    }
+  }
+
+  return {
+    // Response timing and tree edges only exist for messages seen in this
+    // tab (and the model may arrive late), so a later conversation refetch
+    // must not wipe them out.
+    putTimestamps(timestamps: Record<string, MessageTimestamp>): void {
+      const batch = ++seq;
+      for (const [id, info] of Object.entries(timestamps)) {
+        const previous = messages.get(id)?.value;
+        const timing = info.timing ?? previous?.timing;
+        const parentId = info.parentId !== undefined ? info.parentId : previous?.parentId;
+        const model = info.model ?? previous?.model;
+        put(messages, id, { ...info, timing, parentId, model }, MAX_BUFFERED_MESSAGES, batch);
+      }
+      send({ type: "TIMEGPT_TIMESTAMPS", seq: batch, timestamps });
+    },
+
+    putConversations(items: Record<string, ConversationTimestamp>): void {
+      const batch = ++seq;
+      for (const [id, info] of Object.entries(items)) {
+        put(conversations, id, info, MAX_BUFFERED_CONVERSATIONS, batch);
+      }
+      send({ type: "TIMEGPT_CONVERSATIONS", seq: batch, conversations: items });
+    },
+
+    putDetail(detail: ConversationDetail): void {
+      const batch = ++seq;
+      put(details, detail.id, detail, MAX_BUFFERED_DETAILS, batch);
+      send({ type: "TIMEGPT_CONVERSATION_DETAIL", seq: batch, detail });
+    },
+
+    // Re-sends everything not yet acknowledged, tagged with fresh sequence
+    // numbers so acknowledging them releases it all.
+    drain(): void {
+      if (messages.size > 0) {
+        const batch = ++seq;
+        for (const entry of messages.values()) entry.seq = batch;
+        send({ type: "TIMEGPT_TIMESTAMPS", seq: batch, timestamps: values(messages) });
+      }
+      if (conversations.size > 0) {
+        const batch = ++seq;
+        for (const entry of conversations.values()) entry.seq = batch;
+        send({ type: "TIMEGPT_CONVERSATIONS", seq: batch, conversations: values(conversations) });
+      }
+      for (const entry of details.values()) {
+        entry.seq = ++seq;
+        send({ type: "TIMEGPT_CONVERSATION_DETAIL", seq: entry.seq, detail: entry.value });
+      }
+    },
+
+    // The content script has received every batch up to and including `upTo`
+    ack(upTo: number): void {
+      release(messages, upTo);
+      release(conversations, upTo);
+      release(details, upTo);
+      if (__DEBUG__) {
+        console.log(
+          `[TimeGPT] Acknowledged up to #${upTo}; still buffered: ` +
+            `${messages.size} messages, ${conversations.size} conversations, ${details.size} details`
+        );
+      }
+    },
+  };
+}
@@ -1,12 +1,35 @@
-// TimeGPT popup — format picker + visibility toggles
+// TimeGPT popup — format picker + visibility toggles + stats/export + cache management
+// + a warning when timestamps are captured but can't be placed + capture diagnostics
 
-import type { TimestampFormat } from "./types";
-
-const DEFAULTS = {
-  timestampFormat: "relative" as TimestampFormat,
-  showMessageTimestamps: true,
-  showSidebarTimestamps: true,
-};
+import type {
+  TimestampFormat,
+  TimegptSettings,
+  SidebarTimeField,
+  SecondaryZoneDisplay,
+  ConversationStats,
+  ExportFormat,
+  TimegptExportRequest,
+  TimegptExportResponse,
+  TimegptStatsResponse,
+  TimegptHealthResponse,
+  TimegptDiagnosticsResponse,
+  CaptureDiagnostics,
+  TimegptTabRequest,
+  PlacementHealth,
+} from "./types";
+import { clearCache, getCacheStats } from "./cache";
+import { getStorageWriteError } from "./storage-requests";
+import { loadSettings, saveSettings } from "./settings";
+import {
+  formatFull,
+  formatParts,
+  formatSpan,
+  formatPattern,
+  isValidLocale,
+  isValidTimeZone,
+  parsePattern,
+} from "./format";
+import type { ZoneOptions } from "./format";
 
 interface FormatOption {
   id: TimestampFormat;
@@ -15,7 +38,7 @@ interface FormatOption {
 }
 
 const FORMATS: FormatOption[] = [
-  { id: "relative", name: "Relative", example: "5m ago, 2h ago, 3d ago" },
+  { id: "relative", name: "Relative", example: "5 minutes ago, yesterday, last week" },
   { id: "datetime24", name: "Date + Time (24h)", example: "2025-01-15 14:30" },
   {
     id: "datetime12",
@@ -25,6 +48,7 @@ const FORMATS: FormatOption[] = [
   { id: "time24", name: "Time only (24h)", example: "14:30" },
   { id: "time12", name: "Time only (12h)", example: "2:30 PM" },
   { id: "iso", name: "ISO 8601", example: "2025-01-15T14:30:00" },
+  { id: "custom", name: "Custom", example: "ddd D MMM, HH:mm" },
 ];
 
 const container = document.getElementById("options")!;
@@ -35,6 +59,51 @@ const msgToggle = document.getElementById(
 const sidebarToggle = document.getElementById(
   "toggle-sidebar"
 ) as HTMLInputElement;
+const sidebarFieldSelect = document.getElementById(
+  "sidebar-field"
+) as HTMLSelectElement;
+const filterToggle = document.getElementById(
+  "toggle-filter"
+) as HTMLInputElement;
+const modelToggle = document.getElementById(
+  "toggle-model"
+) as HTMLInputElement;
+const timelineToggle = document.getElementById(
+  "toggle-timeline"
+) as HTMLInputElement;
+const timingToggle = document.getElementById(
+  "toggle-timing"
+) as HTMLInputElement;
+const gapsToggle = document.getElementById(
+  "toggle-gaps"
+) as HTMLInputElement;
+const gapSelect = document.getElementById(
+  "gap-threshold"
+) as HTMLSelectElement;
+const customFormatEl = document.getElementById("custom-format")!;
+const relativeFormatEl = document.getElementById("relative-format")!;
+const relativeThresholdSelect = document.getElementById(
+  "relative-threshold"
+) as HTMLSelectElement;
+const messagePatternInput = document.getElementById(
+  "pattern-message"
+) as HTMLInputElement;
+const sidebarPatternInput = document.getElementById(
+  "pattern-sidebar"
+) as HTMLInputElement;
+const localeInput = document.getElementById("locale") as HTMLInputElement;
+const timeZoneInput = document.getElementById("timezone") as HTMLInputElement;
+const secondaryZoneInput = document.getElementById(
+  "secondary-timezone"
+) as HTMLInputElement;
+const secondaryDisplaySelect = document.getElementById(
+  "secondary-display"
+) as HTMLSelectElement;
+const cacheStatsEl = document.getElementById("cache-stats")!;
+const clearCacheBtn = document.getElementById(
+  "clear-cache"
+) as HTMLButtonElement;
+const cacheStatusEl = document.getElementById("cache-status")!;
 
 // Build format radio buttons
 FORMATS.forEach((fmt) => {
@@ -48,38 +117,470 @@ FORMATS.forEach((fmt) => {
 });
 
 // Load current settings
-chrome.storage.sync.get(DEFAULTS, (result) => {
+loadSettings().then((result) => {
   const radio = document.querySelector<HTMLInputElement>(
     `input[value="${result.timestampFormat}"]`
   );
   if (radio) radio.checked = true;
-  msgToggle.checked = result.showMessageTimestamps as boolean;
-  sidebarToggle.checked = result.showSidebarTimestamps as boolean;
+  customFormatEl.hidden = result.timestampFormat !== "custom";
+  relativeFormatEl.hidden = result.timestampFormat !== "relative";
+  relativeThresholdSelect.value = String(result.relativeThresholdDays);
+  messagePatternInput.value = result.customMessagePattern;
+  sidebarPatternInput.value = result.customSidebarPattern;
+  renderPreview(messagePatternInput, "preview-message");
+  renderPreview(sidebarPatternInput, "preview-sidebar");
+  localeInput.value = result.locale;
+  timeZoneInput.value = result.timeZone;
+  secondaryZoneInput.value = result.secondaryTimeZone;
+  secondaryDisplaySelect.value = result.secondaryTimeZoneDisplay;
+  renderZonePreviews();
+  msgToggle.checked = result.showMessageTimestamps;
+  sidebarToggle.checked = result.showSidebarTimestamps;
+  sidebarFieldSelect.value = result.sidebarTimeField;
+  sidebarFieldSelect.disabled = !sidebarToggle.checked;
+  filterToggle.checked = result.showSidebarFilter;
+  timelineToggle.checked = result.showTimeline;
+  modelToggle.checked = result.showModel;
+  timingToggle.checked = result.showResponseTiming;
+  gapsToggle.checked = result.showTimeGaps;
+  gapSelect.value = String(result.timeGapHours);
+  gapSelect.disabled = !gapsToggle.checked;
+  loadStats({
+    locale: result.locale || undefined,
+    timeZone: result.timeZone || undefined,
+  });
 });
 
-function showSaved(): void {
+function showSaved(text = "Saved", isError = false): void {
+  savedEl.textContent = text;
+  savedEl.classList.toggle("error", isError);
   savedEl.classList.add("show");
-  setTimeout(() => savedEl.classList.remove("show"), 2000);
+  setTimeout(() => savedEl.classList.remove("show"), isError ? 5000 : 2000);
+}
+
+// chrome.storage.sync rejects writes past its quota or rate limit
+function save(patch: Partial<TimegptSettings>): void {
+  saveSettings(patch).then(
+    () => showSaved(),
+    (err) => showSaved(`Not saved: ${err instanceof Error ? err.message : err}`, true)
+  );
+}
+
+function renderCacheStats(): void {
+  Promise.all([getCacheStats(), getStorageWriteError()]).then(
+    ([{ messages, conversations }, writeError]) => {
+      cacheStatsEl.textContent =
+        `${messages.toLocaleString()} messages · ${conversations.toLocaleString()} conversations`;
+      clearCacheBtn.disabled = messages === 0 && conversations === 0;
+      // A cache or usage history write failed, e.g. the disk is full
+      cacheStatusEl.textContent = writeError ? `Last save failed: ${writeError}` : "";
+    }
+  );
 }
 
+renderCacheStats();
+
 // Save format on change
 container.addEventListener("change", (e) => {
   const target = e.target as HTMLInputElement;
   if (target.name !== "format") return;
-  chrome.storage.sync.set({ timestampFormat: target.value }, showSaved);
+  customFormatEl.hidden = target.value !== "custom";
+  relativeFormatEl.hidden = target.value !== "relative";
+  save({ timestampFormat: target.value as TimestampFormat });
+});
+
+relativeThresholdSelect.addEventListener("change", () => {
+  save({ relativeThresholdDays: Number(relativeThresholdSelect.value) });
+});
+
+// --- Custom patterns: live preview + validation ---
+// Returns whether the pattern is valid
+function renderPreview(input: HTMLInputElement, previewId: string): boolean {
+  const parsed = parsePattern(input.value);
+  if (!parsed.ok) return setPreview(input, previewId, parsed.error, "");
+  return setPreview(input, previewId, null, formatPattern(new Date(), input.value) ?? "");
+}
+
+function setPreview(
+  input: HTMLInputElement,
+  previewId: string,
+  error: string | null,
+  text: string
+): boolean {
+  const preview = document.getElementById(previewId)!;
+  input.setAttribute("aria-invalid", String(error !== null));
+  preview.classList.toggle("error", error !== null);
+  preview.textContent = error ?? text;
+  return error === null;
+}
+
+// Saves a text setting once it validates.
+// Debounced — chrome.storage.sync limits writes per minute.
+function bindTextInput(
+  input: HTMLInputElement,
+  key: "customMessagePattern" | "customSidebarPattern" | "locale" | "timeZone" | "secondaryTimeZone",
+  validate: () => boolean
+): void {
+  let saveTimer: ReturnType<typeof setTimeout> | null = null;
+  input.addEventListener("input", () => {
+    if (saveTimer !== null) clearTimeout(saveTimer);
+    if (!validate()) return;
+    saveTimer = setTimeout(() => {
+      save({ [key]: input.value.trim() });
+    }, 500);
+  });
+}
+
+bindTextInput(messagePatternInput, "customMessagePattern", () =>
+  renderPreview(messagePatternInput, "preview-message")
+);
+bindTextInput(sidebarPatternInput, "customSidebarPattern", () =>
+  renderPreview(sidebarPatternInput, "preview-sidebar")
+);
+
+// --- Time zone & locale ---
+const supportedValuesOf = (
+  Intl as { supportedValuesOf?: (key: "timeZone") => string[] }
+).supportedValuesOf;
+const timeZoneList = document.getElementById("timezone-list")!;
+for (const zone of supportedValuesOf?.("timeZone") ?? ["UTC"]) {
+  const option = document.createElement("option");
+  option.value = zone;
+  timeZoneList.appendChild(option);
+}
+
+// Shows the current time as it would render with the entered settings
+function renderZonePreview(
+  input: HTMLInputElement,
+  previewId: string,
+  emptyText: string
+): boolean {
+  const value = input.value.trim();
+  const localeValue = localeInput.value.trim();
+  if (!value) return setPreview(input, previewId, null, emptyText);
+  if (!isValidTimeZone(value)) {
+    return setPreview(input, previewId, `Unknown time zone "${value}"`, "");
+  }
+  const now = formatParts(new Date(), {
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZoneName: "short",
+  }, {
+    locale: localeValue && isValidLocale(localeValue) ? localeValue : undefined,
+    timeZone: value,
+  });
+  return setPreview(input, previewId, null, `Now: ${now}`);
+}
+
+function renderLocalePreview(): boolean {
+  const value = localeInput.value.trim();
+  if (value && !isValidLocale(value)) {
+    return setPreview(localeInput, "preview-locale", `Unsupported locale "${value}"`, "");
+  }
+  const sample = formatParts(new Date(), { dateStyle: "full" }, {
+    locale: value || undefined,
+  });
+  return setPreview(localeInput, "preview-locale", null, sample);
+}
+
+function renderZonePreviews(): void {
+  renderLocalePreview();
+  renderZonePreview(timeZoneInput, "preview-timezone", "Using browser time zone");
+  renderZonePreview(secondaryZoneInput, "preview-secondary-timezone", "Not shown");
+  secondaryDisplaySelect.disabled = !secondaryZoneInput.value.trim();
+}
+
+bindTextInput(localeInput, "locale", () => {
+  renderZonePreviews();
+  return renderLocalePreview();
+});
+bindTextInput(timeZoneInput, "timeZone", () =>
+  renderZonePreview(timeZoneInput, "preview-timezone", "Using browser time zone")
+);
+bindTextInput(secondaryZoneInput, "secondaryTimeZone", () => {
+  secondaryDisplaySelect.disabled = !secondaryZoneInput.value.trim();
+  return renderZonePreview(secondaryZoneInput, "preview-secondary-timezone", "Not shown");
+});
+
+secondaryDisplaySelect.addEventListener("change", () => {
+  save({ secondaryTimeZoneDisplay: secondaryDisplaySelect.value as SecondaryZoneDisplay });
 });
 
 // Save visibility toggles
 msgToggle.addEventListener("change", () => {
-  chrome.storage.sync.set(
-    { showMessageTimestamps: msgToggle.checked },
-    showSaved
-  );
+  save({ showMessageTimestamps: msgToggle.checked });
 });
 
 sidebarToggle.addEventListener("change", () => {
-  chrome.storage.sync.set(
-    { showSidebarTimestamps: sidebarToggle.checked },
-    showSaved
+  sidebarFieldSelect.disabled = !sidebarToggle.checked;
+  save({ showSidebarTimestamps: sidebarToggle.checked });
+});
+
+sidebarFieldSelect.addEventListener("change", () => {
+  save({ sidebarTimeField: sidebarFieldSelect.value as SidebarTimeField });
+});
+
+filterToggle.addEventListener("change", () => {
+  save({ showSidebarFilter: filterToggle.checked });
+});
+
+modelToggle.addEventListener("change", () => {
+  save({ showModel: modelToggle.checked });
+});
+
+timelineToggle.addEventListener("change", () => {
+  save({ showTimeline: timelineToggle.checked });
+});
+
+timingToggle.addEventListener("change", () => {
+  save({ showResponseTiming: timingToggle.checked });
+});
+
+gapsToggle.addEventListener("change", () => {
+  gapSelect.disabled = !gapsToggle.checked;
+  save({ showTimeGaps: gapsToggle.checked });
+});
+
+gapSelect.addEventListener("change", () => {
+  save({ timeGapHours: Number(gapSelect.value) });
+});
+
+// --- Messaging with the content script in the active tab ---
+// Calls back with null when the tab has no content script (not a supported chat site).
+function sendToActiveTab<T>(request: TimegptTabRequest, callback: (response: T | null) => void): void {
+  chrome.tabs.query({ active: true, currentWindow: true }, ([tab]) => {
+    if (tab?.id == null) {
+      callback(null);
+      return;
+    }
+    chrome.tabs.sendMessage(tab.id, request, (response?: T) => {
+      if (chrome.runtime.lastError || !response) {
+        callback(null);
+        return;
+      }
+      callback(response);
+    });
+  });
+}
+
+// --- Placement health for the active tab ---
+// Warns when the site's layout seems to have changed: timestamps were
+// captured but none of the anchor strategies could place them, or only
+// the generic fallback could.
+const healthWarningEl = document.getElementById("health-warning")!;
+
+function loadHealth(): void {
+  sendToActiveTab<TimegptHealthResponse>({ type: "TIMEGPT_HEALTH" }, (response) => {
+    const lines: string[] = [];
+    if (response?.ok) {
+      if (response.enabled.messages) {
+        lines.push(...healthWarnings(response.messages, "timestamps"));
+      }
+      if (response.enabled.sidebar) {
+        lines.push(...healthWarnings(response.sidebar, "conversation timestamps"));
+      }
+    }
+    healthWarningEl.replaceChildren(
+      ...lines.map((line) => {
+        const p = document.createElement("p");
+        p.textContent = line;
+        return p;
+      })
+    );
+    healthWarningEl.hidden = lines.length === 0;
+  });
+}
+
+function healthWarnings(health: PlacementHealth, noun: string): string[] {
+  const warnings: string[] = [];
+  const missing = health.captured - health.placed - health.pending;
+  if (health.captured > 0 && missing > 0) {
+    warnings.push(`${health.captured} ${noun} captured, ${health.placed} placed — layout may have changed`);
+  }
+  if (health.fallbacks > 0) {
+    warnings.push(`${health.fallbacks} ${noun} placed in a fallback position — layout may have changed`);
+  }
+  return warnings;
+}
+
+loadHealth();
+
+// --- Capture diagnostics for the active tab ---
+// What the interceptor matched, parsed and rejected; shown in every build
+// so users can report exactly what stopped working.
+const diagnosticsEl = document.getElementById("diagnostics")!;
+const copyDiagnosticsBtn = document.getElementById("copy-diagnostics") as HTMLButtonElement;
+let diagnosticsReport: string | null = null;
+
+const ENDPOINT_LABELS: Record<string, string> = {
+  conversation: "Conversation",
+  conversations: "Conversation list",
+  "project-conversations": "Project chats",
+  "gpt-conversations": "Custom GPT chats",
+  search: "Search results",
+  stream: "Streamed replies",
+};
+
+function loadDiagnostics(): void {
+  sendToActiveTab<TimegptDiagnosticsResponse>({ type: "TIMEGPT_DIAGNOSTICS" }, (response) => {
+    diagnosticsEl.replaceChildren();
+    if (!response || !response.ok) {
+      const empty = document.createElement("div");
+      empty.className = "stats-empty";
+      empty.textContent = response?.ok === false ? response.error : "Open ChatGPT or Claude to see capture diagnostics.";
+      diagnosticsEl.appendChild(empty);
+      return;
+    }
+
+    const { diagnostics } = response;
+    for (const [label, value, isList] of diagnosticsRows(diagnostics)) {
+      const dt = document.createElement("dt");
+      dt.textContent = label;
+      const dd = document.createElement("dd");
+      dd.textContent = value;
+      if (isList) dd.className = "diagnostics-list";
+      diagnosticsEl.append(dt, dd);
+    }
+
+    diagnosticsReport = JSON.stringify(
+      { version: chrome.runtime.getManifest().version, userAgent: navigator.userAgent, ...diagnostics },
+      null,
+      2
+    );
+    copyDiagnosticsBtn.disabled = false;
+  });
+}
+
+// [label, value, value is a multi-line list shown below its label]
+function diagnosticsRows(d: CaptureDiagnostics): Array<[string, string, boolean]> {
+  const rows: Array<[string, string, boolean]> = [];
+  for (const [endpoint, counts] of Object.entries(d.endpoints)) {
+    let value = `${counts.parsed}/${counts.matched} parsed`;
+    if (counts.invalid > 0) value += ` · ${counts.invalid} invalid`;
+    if (counts.httpErrors > 0) value += ` · ${counts.httpErrors} HTTP errors`;
+    rows.push([ENDPOINT_LABELS[endpoint] ?? endpoint, value, false]);
+  }
+  if (rows.length === 0) rows.push(["API responses", "none seen yet", false]);
+  rows.push(["SSE events", d.sseEvents.toLocaleString(), false]);
+
+  const list = (record: Record<string, number>) =>
+    Object.entries(record)
+      .sort((a, b) => b[1] - a[1])
+      .map(([key, count]) => `${key} ×${count}`)
+      .join("\n");
+  if (Object.keys(d.unknownSseEvents).length > 0) {
+    rows.push(["Unknown SSE events", list(d.unknownSseEvents), true]);
+  }
+  if (Object.keys(d.validationFailures).length > 0) {
+    rows.push(["Validation failures", list(d.validationFailures), true]);
+  }
+  if (d.lastFailure) {
+    const at = formatParts(new Date(d.lastFailure.at * 1000), { hour: "2-digit", minute: "2-digit" });
+    rows.push(["Last failure", at, false]);
+  }
+  return rows;
+}
+
+copyDiagnosticsBtn.addEventListener("click", () => {
+  if (!diagnosticsReport) return;
+  navigator.clipboard.writeText(diagnosticsReport).then(
+    () => showSaved("Diagnostics copied"),
+    () => showSaved("Copy failed")
+  );
+});
+
+loadDiagnostics();
+
+// --- Stats for the conversation open in the active tab ---
+const statsEl = document.getElementById("stats")!;
+
+function loadStats(zone: ZoneOptions): void {
+  sendToActiveTab<TimegptStatsResponse>({ type: "TIMEGPT_STATS" }, (response) => {
+    statsEl.replaceChildren();
+    if (!response || !response.ok) {
+      const empty = document.createElement("div");
+      empty.className = "stats-empty";
+      empty.textContent = response?.ok === false
+        ? response.error
+        : "Open a ChatGPT or Claude conversation to see its stats.";
+      statsEl.appendChild(empty);
+      return;
+    }
+    for (const [label, value] of statsRows(response.stats, zone)) {
+      const dt = document.createElement("dt");
+      dt.textContent = label;
+      const dd = document.createElement("dd");
+      dd.textContent = value;
+      statsEl.append(dt, dd);
+    }
+  });
+}
+
+function statsRows(stats: ConversationStats, zone: ZoneOptions): Array<[string, string]> {
+  const time = (unix: number | null) =>
+    unix === null ? "—" : formatFull(new Date(unix * 1000), zone);
+  const roles = Object.entries(stats.countsByRole)
+    .map(([role, count]) => `${count} ${role}`)
+    .join(", ");
+
+  return [
+    ["Created", time(stats.createTime)],
+    ["First message", time(stats.firstMessageTime)],
+    ["Last message", time(stats.lastMessageTime)],
+    ["Total span", stats.spanSeconds === null ? "—" : formatSpan(stats.spanSeconds)],
+    ["Messages", `${stats.messageCount}${roles ? ` (${roles})` : ""}`],
+    ["Avg. reply time", stats.averageReplySeconds === null ? "—" : formatSpan(stats.averageReplySeconds)],
+    ["Longest idle gap", stats.longestIdle === null ? "—" : formatSpan(stats.longestIdle.seconds)],
+  ];
+}
+
+// --- Export the conversation open in the active tab ---
+const exportButtons = document.getElementById("export-buttons")!;
+const exportStatus = document.getElementById("export-status")!;
+
+function showExportStatus(text: string, isError: boolean): void {
+  exportStatus.textContent = text;
+  exportStatus.classList.toggle("error", isError);
+}
+
+exportButtons.addEventListener("click", (e) => {
+  const button = (e.target as HTMLElement).closest<HTMLButtonElement>("button[data-export]");
+  if (!button) return;
+  const request: TimegptExportRequest = {
+    type: "TIMEGPT_EXPORT",
+    format: button.dataset.export as ExportFormat,
+  };
+
+  sendToActiveTab<TimegptExportResponse>(request, (response) => {
+    if (!response) {
+      showExportStatus("Open a ChatGPT or Claude conversation to export it.", true);
+    } else if (response.ok) {
+      showExportStatus(`Exported ${response.messageCount} messages to ${response.filename}`, false);
+    } else {
+      showExportStatus(response.error, true);
+    }
+  });
+});
+
+// Open the usage history dashboard in a new tab
+document.getElementById("open-dashboard")!.addEventListener("click", () => {
+  chrome.tabs.create({ url: chrome.runtime.getURL("dashboard.html") });
+});
+
+// Every setting, profiles and import/export
+document.getElementById("open-options")!.addEventListener("click", () => {
+  chrome.runtime.openOptionsPage();
+});
+
+// Clear the persistent timestamp cache
+clearCacheBtn.addEventListener("click", () => {
+  clearCache().then(
+    () => {
+      renderCacheStats();
+      showSaved("Cache cleared");
+    },
+    (err) => {
+      cacheStatusEl.textContent = `Couldn't clear the cache: ${err instanceof Error ? err.message : err}`;
+    }
   );
 });
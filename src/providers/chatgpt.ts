@@ -0,0 +1,551 @@
+// TimeGPT — ChatGPT adapter (chatgpt.com, and the legacy chat.openai.com).
+// Reads timestamps from the backend-api JSON responses and the reply
+// stream, and places them in ChatGPT's message and sidebar markup.
+
+import type {
+  MessageTimestamp,
+  MessageTiming,
+  ConversationTimestamp,
+  ConversationDetail,
+  TranscriptMessage,
+} from "../types";
+import type { CaptureSink, JsonEndpoint, ProviderAdapter, ProviderDom, StreamEndpoint, StreamParser } from "./index";
+import { AFTER_CONTENT_ANCHOR, LINK_ANCHOR, TRUNCATED_TEXT_ANCHOR, rowAnchor } from "../anchors";
+import { isIsoTime, isObject, isTime, isUnixSeconds, readString } from "../diagnostics";
+
+// =============================================
+// RESPONSE SHAPES + VALIDATION
+// =============================================
+
+// A message from a conversation response or the reply stream, with every
+// field type-checked (see readMessage)
+interface ChatMessage {
+  id: string;
+  create_time: number | null;
+  author: { role: string | null; name: string | null };
+  parts: unknown[];
+  status: string | null;
+  metadata: MessageMetadata;
+}
+
+interface MessageMetadata {
+  is_visually_hidden_from_conversation: boolean;
+  model_slug: string | null;
+  default_model_slug: string | null;
+  // "variant" for regenerated replies, "next" otherwise
+  message_type: string | null;
+  // Streamed messages name their parent here
+  parent_id: string | null;
+}
+
+interface MappingNode {
+  parent: string | null;
+  message: ChatMessage | null;
+}
+
+interface ConversationDetailResponse {
+  conversation_id: string | null;
+  title: string | null;
+  create_time: number | null;
+  update_time: number | null;
+  current_node: string | null;
+  mapping: Map<string, MappingNode>;
+}
+
+function validateConversationDetail(json: unknown): string | null {
+  if (!isObject(json)) return "response is not an object";
+  if (!isObject(json.mapping)) return "mapping missing";
+  const nodes = Object.values(json.mapping);
+  if (nodes.length === 0) return "mapping empty";
+  const hasTimestamp = nodes.some(
+    (node) => isObject(node) && isObject(node.message) && typeof node.message.create_time === "number"
+  );
+  if (!hasTimestamp) return "no message has a numeric create_time";
+  if (typeof json.current_node !== "string") return "current_node missing";
+  return null;
+}
+
+function validateItems(json: unknown, idField: string): string | null {
+  if (!isObject(json)) return "response is not an object";
+  if (!Array.isArray(json.items)) return "items missing";
+  if (json.items.length === 0) return null;
+  const hasTimestamp = json.items.some(
+    (item: unknown) => isObject(item) && typeof item[idField] === "string" && isTime(item.create_time)
+  );
+  if (!hasTimestamp) return `no item has ${idField} and create_time`;
+  return null;
+}
+
+// History, project and custom GPT conversation lists
+function validateConversationList(json: unknown): string | null {
+  return validateItems(json, "id");
+}
+
+// Search results carry the conversation ID separately from the hit's own ID
+function validateSearchResults(json: unknown): string | null {
+  return validateItems(json, "conversation_id");
+}
+
+// SSE `type` values we know about, whether or not they carry timestamps
+const KNOWN_SSE_TYPES = new Set([
+  "input_message",
+  "title_generation",
+  "message_stream_complete",
+  "conversation_detail_metadata",
+  "server_ste_metadata",
+  "message_marker",
+  "resume_conversation_token",
+  "url_moderation",
+  "moderation",
+]);
+
+function classifySseEvent(data: unknown): string | null {
+  // Version markers like "v1" and other bare values carry nothing for us
+  if (!isObject(data)) return null;
+  if (typeof data.type === "string") {
+    return KNOWN_SSE_TYPES.has(data.type) ? null : `type:${data.type}`;
+  }
+  // Untyped events are patches: {"v": ...}, {"o": "append", ...}, {"p": ...}
+  if ("v" in data || "o" in data || "p" in data) return null;
+  return `untyped:${Object.keys(data).sort().join(",")}`;
+}
+
+// =============================================
+// READERS (unknown JSON → checked shapes)
+// =============================================
+
+const NO_FIELDS: Record<string, unknown> = {};
+
+function fieldsOf(value: unknown): Record<string, unknown> {
+  return isObject(value) ? value : NO_FIELDS;
+}
+
+function secondsOrNull(value: unknown): number | null {
+  return isUnixSeconds(value) ? value : null;
+}
+
+// Null for anything without an ID
+function readMessage(value: unknown): ChatMessage | null {
+  if (!isObject(value) || typeof value.id !== "string") return null;
+  const author = fieldsOf(value.author);
+  const parts = fieldsOf(value.content).parts;
+  const metadata = fieldsOf(value.metadata);
+  return {
+    id: value.id,
+    create_time: secondsOrNull(value.create_time),
+    author: { role: readString(author.role) ?? null, name: readString(author.name) ?? null },
+    parts: Array.isArray(parts) ? parts : [],
+    status: readString(value.status) ?? null,
+    metadata: {
+      is_visually_hidden_from_conversation: metadata.is_visually_hidden_from_conversation === true,
+      model_slug: readString(metadata.model_slug) ?? null,
+      default_model_slug: readString(metadata.default_model_slug) ?? null,
+      message_type: readString(metadata.message_type) ?? null,
+      parent_id: readString(metadata.parent_id) ?? null,
+    },
+  };
+}
+
+function readConversationDetail(json: unknown): ConversationDetailResponse | null {
+  if (!isObject(json) || !isObject(json.mapping)) return null;
+  const mapping = new Map<string, MappingNode>();
+  for (const [nodeId, node] of Object.entries(json.mapping)) {
+    if (!isObject(node)) continue;
+    mapping.set(nodeId, { parent: readString(node.parent) ?? null, message: readMessage(node.message) });
+  }
+  return {
+    conversation_id: readString(json.conversation_id) ?? null,
+    title: readString(json.title) ?? null,
+    create_time: secondsOrNull(json.create_time),
+    update_time: secondsOrNull(json.update_time),
+    current_node: readString(json.current_node) ?? null,
+    mapping,
+  };
+}
+
+// Lists mostly use ISO strings; some endpoints send unix seconds instead
+function toIso(value: unknown): string | null {
+  if (isUnixSeconds(value)) return new Date(value * 1000).toISOString();
+  return isIsoTime(value) ? value : null;
+}
+
+// The `items` of a list response that have an ID and a creation time,
+// keyed by conversation ID
+function readListItems(json: unknown, idField: string): Record<string, ConversationTimestamp> {
+  const conversations: Record<string, ConversationTimestamp> = {};
+  const items = fieldsOf(json).items;
+  if (!Array.isArray(items)) return conversations;
+  for (const item of items) {
+    if (!isObject(item)) continue;
+    const id = item[idField];
+    const createTime = toIso(item.create_time);
+    if (typeof id !== "string" || !id || !createTime) continue;
+    conversations[id] = {
+      createTime,
+      updateTime: toIso(item.update_time),
+      title: readString(item.title) || null,
+    };
+  }
+  return conversations;
+}
+
+// =============================================
+// EXTRACTORS
+// =============================================
+
+// Which model or tool wrote a message, and whether it was regenerated
+function messageOrigin(msg: ChatMessage): Pick<MessageTimestamp, "model" | "tool" | "regenerated"> {
+  const role = msg.author.role;
+  return {
+    model: role === "assistant" ? msg.metadata.model_slug || msg.metadata.default_model_slug || null : null,
+    tool: role === "tool" ? msg.author.name || "tool" : null,
+    regenerated: msg.metadata.message_type === "variant",
+  };
+}
+
+function extractMessageTimestamps(data: ConversationDetailResponse, sink: CaptureSink): void {
+  const timestamps: Record<string, MessageTimestamp> = {};
+  let count = 0;
+
+  for (const node of data.mapping.values()) {
+    const msg = node.message;
+    if (!msg || msg.create_time === null) continue;
+
+    // Keep the tree edge so edits and regenerations (siblings sharing
+    // a parent) can be told apart from the visible branch
+    timestamps[msg.id] = {
+      createTime: msg.create_time,
+      role: msg.author.role,
+      parentId: node.parent,
+      ...messageOrigin(msg),
+    };
+    count++;
+  }
+
+  if (count === 0) return;
+
+  if (__DEBUG__) console.log(`[TimeGPT] Captured ${count} message timestamps`);
+  sink.putTimestamps(timestamps);
+}
+
+// Keeps the title and message text of the visible branch for export.
+// Held in memory only — never persisted.
+function extractConversationDetail(data: ConversationDetailResponse, url: string, sink: CaptureSink): void {
+  const id = data.conversation_id || url.match(/\/conversation\/([0-9a-f-]{20,})/)?.[1];
+  if (!id) return;
+
+  // Walk from the current leaf up to the root to get the visible branch
+  const branch: MappingNode[] = [];
+  const seen = new Set<string>();
+  let nodeId = data.current_node;
+  let node = nodeId ? data.mapping.get(nodeId) : undefined;
+  while (nodeId && node && !seen.has(nodeId)) {
+    seen.add(nodeId);
+    branch.push(node);
+    nodeId = node.parent;
+    node = nodeId ? data.mapping.get(nodeId) : undefined;
+  }
+  branch.reverse();
+
+  const messages: TranscriptMessage[] = [];
+  for (const { message: msg } of branch) {
+    if (!msg || msg.metadata.is_visually_hidden_from_conversation) continue;
+    const text = msg.parts
+      .filter((part): part is string => typeof part === "string")
+      .join("\n")
+      .trim();
+    if (!text) continue;
+    messages.push({
+      id: msg.id,
+      role: msg.author.role,
+      createTime: msg.create_time,
+      text,
+    });
+  }
+
+  const detail: ConversationDetail = {
+    id,
+    title: data.title || null,
+    createTime: data.create_time,
+    updateTime: data.update_time,
+    messages,
+  };
+
+  if (__DEBUG__) console.log(`[TimeGPT] Captured conversation detail (${messages.length} messages)`);
+  sink.putDetail(detail);
+}
+
+function extractConversationTimestamps(json: unknown, _url: string, sink: CaptureSink): void {
+  postConversations(readListItems(json, "id"), sink);
+}
+
+function extractSearchResults(json: unknown, _url: string, sink: CaptureSink): void {
+  postConversations(readListItems(json, "conversation_id"), sink);
+}
+
+function postConversations(conversations: Record<string, ConversationTimestamp>, sink: CaptureSink): void {
+  const count = Object.keys(conversations).length;
+  if (count === 0) return;
+
+  if (__DEBUG__) console.log(`[TimeGPT] Captured ${count} conversation timestamps`);
+  sink.putConversations(conversations);
+}
+
+const JSON_ENDPOINTS: JsonEndpoint[] = [
+  {
+    // /backend-api/conversation/{uuid}, not its sub-resources
+    // (/textdocs, /stream_status, …)
+    name: "conversation",
+    matches: (url) => /\/backend-api\/conversation\/[0-9a-f-]{20,}(\?|$)/.test(url),
+    validate: validateConversationDetail,
+    extract(json, url, sink) {
+      const data = readConversationDetail(json);
+      if (!data) return;
+      extractMessageTimestamps(data, sink);
+      extractConversationDetail(data, url, sink);
+    },
+  },
+  {
+    // /backend-api/conversations?offset=…  (sidebar history)
+    name: "conversations",
+    matches: (url) => /\/backend-api\/conversations(\?|$)/.test(url),
+    validate: validateConversationList,
+    extract: extractConversationTimestamps,
+  },
+  {
+    // /backend-api/gizmos/g-p-{id}/conversations?cursor=…  (project chats)
+    name: "project-conversations",
+    matches: (url) => /\/backend-api\/gizmos\/g-p-[^/?]+\/conversations(\?|$)/.test(url),
+    validate: validateConversationList,
+    extract: extractConversationTimestamps,
+  },
+  {
+    // /backend-api/gizmos/g-{id}/conversations?cursor=…  (custom GPT chats)
+    name: "gpt-conversations",
+    matches: (url) => /\/backend-api\/gizmos\/g-(?!p-)[^/?]+\/conversations(\?|$)/.test(url),
+    validate: validateConversationList,
+    extract: extractConversationTimestamps,
+  },
+  {
+    // /backend-api/conversations/search?query=…
+    name: "search",
+    matches: (url) => /\/backend-api\/conversations\/search(\?|$)/.test(url),
+    validate: validateSearchResults,
+    extract: extractSearchResults,
+  },
+];
+
+// =============================================
+// REPLY STREAM (new messages, response timing)
+// =============================================
+
+// Per-stream state used to measure response latency. All times are
+// unix seconds, matching `create_time`.
+function openStream(requestSentAt: number, sink: CaptureSink): StreamParser {
+  // Assistant message currently receiving deltas
+  let currentAssistantId: string | null = null;
+  const messages: Record<string, MessageTimestamp> = {};
+  let timestampCount = 0;
+
+  function extractStreamTimestamp(data: Record<string, unknown>): void {
+    const timestamps: Record<string, MessageTimestamp> = {};
+
+    // input_message event — user message
+    const input = data.type === "input_message" ? readMessage(data.input_message) : null;
+    if (input && input.create_time !== null) {
+      timestamps[input.id] = {
+        createTime: input.create_time,
+        role: input.author.role,
+        parentId: streamParentId(data, input),
+        ...messageOrigin(input),
+      };
+    }
+
+    // delta with message data — covers both formats:
+    // - Second+ turns: {"o": "add", "v": {"message": {...}}}
+    // - First turn (new conversation): {"v": {"message": {...}}, "c": N}
+    const msg = readMessage(fieldsOf(data.v).message);
+    if (msg && msg.create_time !== null) {
+      timestamps[msg.id] = {
+        createTime: msg.create_time,
+        role: msg.author.role,
+        parentId: streamParentId(data, msg),
+        ...messageOrigin(msg),
+      };
+      // The model slug may only arrive with a later update of the message
+      const tracked = messages[msg.id];
+      if (tracked && !tracked.model && timestamps[msg.id].model) {
+        tracked.model = timestamps[msg.id].model;
+      }
+      if (msg.author.role === "assistant" && !messages[msg.id]) {
+        messages[msg.id] = {
+          ...timestamps[msg.id],
+          timing: {
+            requestSentAt,
+            firstTokenAt: null,
+            completedAt: null,
+          },
+        };
+      }
+      if (messages[msg.id]) timestamps[msg.id] = messages[msg.id];
+    }
+
+    if (Object.keys(timestamps).length === 0) return;
+    timestampCount += Object.keys(timestamps).length;
+
+    if (__DEBUG__) {
+      console.log("[TimeGPT] Captured streaming timestamps:", Object.keys(timestamps));
+    }
+    sink.putTimestamps(timestamps);
+  }
+
+  // Records when the first content token and the end of each assistant
+  // message arrive, relative to when the request was sent.
+  function trackStreamTiming(data: Record<string, unknown>): void {
+    const msg = readMessage(fieldsOf(data.v).message);
+    if (msg && messages[msg.id]) {
+      const previousId = currentAssistantId;
+      currentAssistantId = msg.id;
+      // A new assistant message means the previous one has finished
+      if (previousId && previousId !== msg.id) completeMessage(previousId);
+      if (hasMessageContent(msg)) markFirstToken(msg.id);
+      if (msg.status === "finished_successfully") completeMessage(msg.id);
+      return;
+    }
+
+    if (currentAssistantId && isContentDelta(data)) {
+      markFirstToken(currentAssistantId);
+    }
+  }
+
+  function updateTiming(id: string, patch: Partial<MessageTiming>): void {
+    const entry = messages[id];
+    if (!entry?.timing) return;
+    entry.timing = { ...entry.timing, ...patch };
+    sink.putTimestamps({ [id]: entry });
+  }
+
+  function markFirstToken(id: string): void {
+    if (messages[id]?.timing?.firstTokenAt != null) return;
+    updateTiming(id, { firstTokenAt: Date.now() / 1000 });
+  }
+
+  function completeMessage(id: string): void {
+    if (messages[id]?.timing?.completedAt != null) return;
+    updateTiming(id, { completedAt: Date.now() / 1000 });
+  }
+
+  return {
+    event(data) {
+      // Version markers like "v1" carry nothing
+      if (!isObject(data)) return;
+      extractStreamTimestamp(data);
+      trackStreamTiming(data);
+    },
+    finish() {
+      for (const id of Object.keys(messages)) completeMessage(id);
+      currentAssistantId = null;
+    },
+    captured: () => timestampCount,
+  };
+}
+
+// Streamed messages carry their parent in metadata (or alongside the
+// message in the delta envelope); undefined when neither is present.
+function streamParentId(data: Record<string, unknown>, msg: ChatMessage): string | undefined {
+  return msg.metadata.parent_id ?? readString(fieldsOf(data.v).parent_id) ?? readString(data.parent_id);
+}
+
+function hasMessageContent(msg: ChatMessage): boolean {
+  return msg.parts.some((p) => typeof p === "string" && p.length > 0);
+}
+
+// Content deltas come as {"v": "text"}, {"o": "append", "v": "text"}
+// or {"o": "patch", "v": [{"o": "append", "v": "text"}, ...]}
+function isContentDelta(data: Record<string, unknown>): boolean {
+  const value = data.v;
+  if (typeof value === "string") return value.length > 0;
+  if (data.o === "patch" && Array.isArray(value)) {
+    return value.some(
+      (op: unknown) => isObject(op) && op.o === "append" && typeof op.v === "string" && op.v.length > 0
+    );
+  }
+  return false;
+}
+
+const STREAM: StreamEndpoint = {
+  // /backend-api/f/conversation
+  name: "stream",
+  matches: (url) => /\/backend-api\/f\/conversation$/.test(url),
+  classify: classifySseEvent,
+  open: openStream,
+};
+
+// =============================================
+// PAGE MARKUP
+// =============================================
+
+const DOM: ProviderDom = {
+  messageSelector: "[data-message-id]",
+  messageId: (el) => el.getAttribute("data-message-id"),
+  role: (el) => el.getAttribute("data-message-author-role"),
+  turnSelector: "article",
+  conversationLinkSelector: [
+    // Sidebar history
+    'a[data-sidebar-item][href^="/c/"]',
+    // Project and custom GPT chats in the sidebar: /g/g-p-…/c/{id}, /g/g-…/c/{id}
+    'a[data-sidebar-item][href^="/g/"][href*="/c/"]',
+    // A project's own page lists its chats in the main area
+    'main a[href^="/g/"][href*="/c/"]',
+    // Search results dialog
+    '[role="dialog"] a[href*="/c/"]',
+  ].join(", "),
+  historyLinkSelector: 'a[data-sidebar-item][href^="/c/"]',
+  conversationId: (path) => path.match(/\/c\/([0-9a-f-]+)/)?.[1] ?? null,
+  messageAnchors: [
+    // The inner animated button row below each message
+    rowAnchor("toolbar", (context) => context.turn?.querySelector("div.z-0.flex")?.firstElementChild),
+    // Whatever row holds the copy button, located by its test ID
+    rowAnchor("action-buttons", (context) => {
+      const scope = context.turn ?? context.messageEl.parentElement;
+      return scope?.querySelector('button[data-testid="copy-turn-action-button"]')?.parentElement;
+    }),
+    AFTER_CONTENT_ANCHOR,
+  ],
+  sidebarAnchors: [
+    {
+      // Below the title, inside its truncating wrapper
+      name: "title",
+      insert({ link }, timeEl) {
+        const title = link.querySelector("div.truncate");
+        if (!title) return false;
+        title.appendChild(timeEl);
+        return true;
+      },
+    },
+    // Project pages and search results truncate the title in other tags
+    TRUNCATED_TEXT_ANCHOR,
+    LINK_ANCHOR,
+  ],
+};
+
+export const chatgpt: ProviderAdapter = {
+  id: "chatgpt",
+  name: "ChatGPT",
+  hosts: ["chatgpt.com"],
+  jsonEndpoints: JSON_ENDPOINTS,
+  stream: STREAM,
+  dom: DOM,
+};
+
+// chat.openai.com serves the same app, but sessions that haven't moved to
+// chatgpt.com still stream replies from /backend-api/conversation
+export const chatgptLegacy: ProviderAdapter = {
+  ...chatgpt,
+  id: "chatgpt-legacy",
+  hosts: ["chat.openai.com"],
+  stream: {
+    ...STREAM,
+    matches: (url) => /\/backend-api\/(f\/)?conversation$/.test(url),
+  },
+};
@@ -0,0 +1,377 @@
+// TimeGPT — Claude adapter (claude.ai).
+// Conversation lists and transcripts come from /api/organizations/{org}/…
+// as JSON with ISO timestamps. claude.ai's markup carries no message IDs,
+// so messages are matched to the page by their position in the visible
+// branch of the conversation.
+
+import type {
+  MessageTimestamp,
+  MessageTiming,
+  ConversationTimestamp,
+  ConversationDetail,
+  TranscriptMessage,
+} from "../types";
+import type { CaptureSink, JsonEndpoint, ProviderAdapter, ProviderDom, StreamEndpoint, StreamParser } from "./index";
+import { AFTER_CONTENT_ANCHOR, LINK_ANCHOR, TRUNCATED_TEXT_ANCHOR, rowAnchor } from "../anchors";
+import { isIsoTime, isObject, isTime, readString } from "../diagnostics";
+
+// =============================================
+// RESPONSE SHAPES + VALIDATION
+// =============================================
+
+// A message of a conversation response, with every field type-checked
+// (see readMessage)
+interface ChatMessage {
+  uuid: string;
+  // "human" or "assistant"
+  sender: string | null;
+  // Always parseable
+  created_at: string | null;
+  parent_message_uuid: string | null;
+  text: string;
+}
+
+interface ConversationResponse {
+  uuid: string | null;
+  name: string | null;
+  model: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+  current_leaf_message_uuid: string | null;
+  chat_messages: ChatMessage[];
+}
+
+function validateConversation(json: unknown): string | null {
+  if (!isObject(json)) return "response is not an object";
+  if (!Array.isArray(json.chat_messages)) return "chat_messages missing";
+  if (json.chat_messages.length === 0) return null;
+  const hasTimestamp = json.chat_messages.some(
+    (msg: unknown) => isObject(msg) && typeof msg.uuid === "string" && isTime(msg.created_at)
+  );
+  if (!hasTimestamp) return "no message has uuid and created_at";
+  return null;
+}
+
+// History and project conversation lists are bare arrays
+function validateConversationList(json: unknown): string | null {
+  if (!Array.isArray(json)) return "response is not an array";
+  if (json.length === 0) return null;
+  const hasTimestamp = json.some(
+    (item: unknown) => isObject(item) && typeof item.uuid === "string" && isTime(item.created_at)
+  );
+  if (!hasTimestamp) return "no item has uuid and created_at";
+  return null;
+}
+
+// Event types of the completion stream
+const KNOWN_SSE_TYPES = new Set([
+  "message_start",
+  "content_block_start",
+  "content_block_delta",
+  "content_block_stop",
+  "message_delta",
+  "message_stop",
+  "message_limit",
+  "ping",
+  "error",
+]);
+
+function classifySseEvent(data: unknown): string | null {
+  if (!isObject(data)) return null;
+  if (typeof data.type === "string") {
+    return KNOWN_SSE_TYPES.has(data.type) ? null : `type:${data.type}`;
+  }
+  return `untyped:${Object.keys(data).sort().join(",")}`;
+}
+
+// =============================================
+// READERS (unknown JSON → checked shapes)
+// =============================================
+
+function isoOrNull(value: unknown): string | null {
+  return isIsoTime(value) ? value : null;
+}
+
+// Text blocks, or the plain `text` of older messages
+function messageText(msg: Record<string, unknown>): string {
+  const blocks: string[] = [];
+  if (Array.isArray(msg.content)) {
+    for (const block of msg.content) {
+      if (isObject(block) && block.type === "text" && typeof block.text === "string") blocks.push(block.text);
+    }
+  }
+  return (blocks.length > 0 ? blocks.join("\n") : readString(msg.text) ?? "").trim();
+}
+
+// Null for anything without an ID
+function readMessage(value: unknown): ChatMessage | null {
+  if (!isObject(value) || typeof value.uuid !== "string" || !value.uuid) return null;
+  return {
+    uuid: value.uuid,
+    sender: readString(value.sender) ?? null,
+    created_at: isoOrNull(value.created_at),
+    parent_message_uuid: readString(value.parent_message_uuid) ?? null,
+    text: messageText(value),
+  };
+}
+
+function readConversation(json: unknown): ConversationResponse | null {
+  if (!isObject(json) || !Array.isArray(json.chat_messages)) return null;
+  const messages: ChatMessage[] = [];
+  for (const value of json.chat_messages) {
+    const msg = readMessage(value);
+    if (msg) messages.push(msg);
+  }
+  return {
+    uuid: readString(json.uuid) ?? null,
+    name: readString(json.name) ?? null,
+    model: readString(json.model) ?? null,
+    created_at: isoOrNull(json.created_at),
+    updated_at: isoOrNull(json.updated_at),
+    current_leaf_message_uuid: readString(json.current_leaf_message_uuid) ?? null,
+    chat_messages: messages,
+  };
+}
+
+// =============================================
+// EXTRACTORS
+// =============================================
+
+function toUnix(iso: string): number {
+  return Date.parse(iso) / 1000;
+}
+
+// Same role names as ChatGPT, so exports and stats read alike
+function roleOf(sender: string | null): string | null {
+  if (sender === "human") return "user";
+  return sender || null;
+}
+
+// Messages on the path from the root to the current leaf, oldest first
+function visibleBranch(data: ConversationResponse): ChatMessage[] {
+  const messages = data.chat_messages;
+  const byId = new Map(messages.map((msg) => [msg.uuid, msg]));
+  const leaf = data.current_leaf_message_uuid;
+  // Without a leaf (or tree) the list is already the visible branch
+  if (!leaf || !byId.has(leaf)) return messages;
+
+  const branch: ChatMessage[] = [];
+  const seen = new Set<string>();
+  let msg = byId.get(leaf);
+  while (msg && !seen.has(msg.uuid)) {
+    seen.add(msg.uuid);
+    branch.push(msg);
+    msg = msg.parent_message_uuid ? byId.get(msg.parent_message_uuid) : undefined;
+  }
+  return branch.reverse();
+}
+
+function extractConversation(json: unknown, url: string, sink: CaptureSink): void {
+  const data = readConversation(json);
+  if (!data) return;
+
+  const timestamps: Record<string, MessageTimestamp> = {};
+  for (const msg of data.chat_messages) {
+    if (!msg.created_at) continue;
+    const role = roleOf(msg.sender);
+    timestamps[msg.uuid] = {
+      createTime: toUnix(msg.created_at),
+      role,
+      parentId: msg.parent_message_uuid,
+      // Only the conversation's current model is known
+      model: role === "assistant" ? data.model || null : null,
+    };
+  }
+  const count = Object.keys(timestamps).length;
+  if (count > 0) {
+    if (__DEBUG__) console.log(`[TimeGPT] Captured ${count} message timestamps`);
+    sink.putTimestamps(timestamps);
+  }
+
+  const id = data.uuid || url.match(/\/chat_conversations\/([0-9a-f-]{36})/)?.[1];
+  if (!id) return;
+
+  // Every message is kept, even without text: the content script lines
+  // them up with the page by position
+  const messages: TranscriptMessage[] = visibleBranch(data).map((msg) => ({
+    id: msg.uuid,
+    role: roleOf(msg.sender),
+    createTime: msg.created_at ? toUnix(msg.created_at) : null,
+    text: msg.text,
+  }));
+
+  const detail: ConversationDetail = {
+    id,
+    title: data.name || null,
+    createTime: data.created_at ? toUnix(data.created_at) : null,
+    updateTime: data.updated_at ? toUnix(data.updated_at) : null,
+    messages,
+  };
+
+  if (__DEBUG__) console.log(`[TimeGPT] Captured conversation detail (${messages.length} messages)`);
+  sink.putDetail(detail);
+}
+
+function extractConversationList(json: unknown, _url: string, sink: CaptureSink): void {
+  if (!Array.isArray(json)) return;
+  const conversations: Record<string, ConversationTimestamp> = {};
+  for (const item of json) {
+    if (!isObject(item) || typeof item.uuid !== "string" || !item.uuid || !isIsoTime(item.created_at)) continue;
+    conversations[item.uuid] = {
+      createTime: item.created_at,
+      updateTime: isoOrNull(item.updated_at),
+      title: readString(item.name) || null,
+    };
+  }
+
+  const count = Object.keys(conversations).length;
+  if (count === 0) return;
+
+  if (__DEBUG__) console.log(`[TimeGPT] Captured ${count} conversation timestamps`);
+  sink.putConversations(conversations);
+}
+
+// Endpoint names match ChatGPT's where the data is the same, so the
+// popup's diagnostics labels apply to both
+const JSON_ENDPOINTS: JsonEndpoint[] = [
+  {
+    // /api/organizations/{org}/chat_conversations/{uuid}?tree=True&…
+    name: "conversation",
+    matches: (url) => /\/api\/organizations\/[^/]+\/chat_conversations\/[0-9a-f-]{36}(\?|$)/.test(url),
+    validate: validateConversation,
+    extract: extractConversation,
+  },
+  {
+    // /api/organizations/{org}/chat_conversations?limit=…  (sidebar history)
+    name: "conversations",
+    matches: (url) => /\/api\/organizations\/[^/]+\/chat_conversations(\?|$)/.test(url),
+    validate: validateConversationList,
+    extract: extractConversationList,
+  },
+  {
+    // /api/organizations/{org}/projects/{uuid}/conversations  (project chats)
+    name: "project-conversations",
+    matches: (url) => /\/api\/organizations\/[^/]+\/projects\/[^/]+\/conversations(\?|$)/.test(url),
+    validate: validateConversationList,
+    extract: extractConversationList,
+  },
+];
+
+// =============================================
+// REPLY STREAM (response timing)
+// =============================================
+
+// The completion stream carries the reply's ID but no server timestamp,
+// so it is timed by when the reply starts arriving; the next fetch of the
+// conversation replaces that with the real created_at.
+function openStream(requestSentAt: number, sink: CaptureSink): StreamParser {
+  let reply: { id: string; entry: MessageTimestamp } | null = null;
+  let timestampCount = 0;
+
+  function updateTiming(patch: Partial<MessageTiming>): void {
+    if (!reply?.entry.timing) return;
+    reply.entry.timing = { ...reply.entry.timing, ...patch };
+    sink.putTimestamps({ [reply.id]: reply.entry });
+  }
+
+  function complete(): void {
+    if (reply?.entry.timing?.completedAt === null) updateTiming({ completedAt: Date.now() / 1000 });
+  }
+
+  return {
+    event(data) {
+      if (!isObject(data)) return;
+      if (data.type === "message_start") {
+        const msg = data.message;
+        if (!isObject(msg) || typeof msg.uuid !== "string") return;
+        reply = {
+          id: msg.uuid,
+          entry: {
+            createTime: Date.now() / 1000,
+            role: "assistant",
+            parentId: typeof msg.parent_uuid === "string" ? msg.parent_uuid : undefined,
+            model: typeof msg.model === "string" && msg.model ? msg.model : null,
+            timing: { requestSentAt, firstTokenAt: null, completedAt: null },
+          },
+        };
+        timestampCount++;
+        if (__DEBUG__) console.log("[TimeGPT] Captured streaming reply:", msg.uuid);
+        sink.putTimestamps({ [reply.id]: reply.entry });
+      } else if (data.type === "content_block_delta" && reply?.entry.timing?.firstTokenAt === null) {
+        updateTiming({ firstTokenAt: Date.now() / 1000 });
+      } else if (data.type === "message_stop") {
+        complete();
+      }
+    },
+    finish: complete,
+    captured: () => timestampCount,
+  };
+}
+
+const STREAM: StreamEndpoint = {
+  // /api/organizations/{org}/chat_conversations/{uuid}/completion (and
+  // /retry_completion for regenerations)
+  name: "stream",
+  matches: (url) => /\/api\/organizations\/[^/]+\/chat_conversations\/[^/]+\/(retry_)?completion$/.test(url),
+  classify: classifySseEvent,
+  open: openStream,
+};
+
+// =============================================
+// PAGE MARKUP
+// =============================================
+
+const MESSAGE_ID_ATTRIBUTE = "data-timegpt-message-id";
+// One wrapper per rendered message
+const TURN_SELECTOR = "[data-test-render-count]";
+
+function turnRole(el: Element): string {
+  return el.querySelector('[data-testid="user-message"]') ? "user" : "assistant";
+}
+
+const DOM: ProviderDom = {
+  messageSelector: TURN_SELECTOR,
+  messageId: (el) => el.getAttribute(MESSAGE_ID_ATTRIBUTE),
+  role: turnRole,
+  turnSelector: TURN_SELECTOR,
+  // Sidebar, the Recents page and project pages
+  conversationLinkSelector: 'a[href^="/chat/"]',
+  historyLinkSelector: 'nav a[href^="/chat/"]',
+  conversationId: (path) => path.match(/\/chat\/([0-9a-f-]{36})/)?.[1] ?? null,
+  messageAnchors: [
+    // The copy / retry / feedback row below each message
+    rowAnchor("action-bar", (context) =>
+      context.turn?.querySelector('[data-testid="action-bar-copy"]')?.parentElement
+    ),
+    AFTER_CONTENT_ANCHOR,
+  ],
+  sidebarAnchors: [TRUNCATED_TEXT_ANCHOR, LINK_ANCHOR],
+
+  // Turns render in branch order, so they're only labeled when the page
+  // shows exactly the captured branch: as many turns, with the same
+  // senders. After an edit or branch switch (until the conversation is
+  // fetched again), or while a reply streams, the turns stay unlabeled
+  // rather than getting another message's ID and time.
+  labelMessages(root, branch) {
+    const turns = [...root.querySelectorAll(TURN_SELECTOR)];
+    if (turns.length !== branch.length) return false;
+    if (!turns.every((turn, i) => turnRole(turn) === branch[i].role)) return false;
+    let changed = false;
+    turns.forEach((turn, i) => {
+      const { id } = branch[i];
+      if (turn.getAttribute(MESSAGE_ID_ATTRIBUTE) === id) return;
+      turn.setAttribute(MESSAGE_ID_ATTRIBUTE, id);
+      changed = true;
+    });
+    return changed;
+  },
+};
+
+export const claude: ProviderAdapter = {
+  id: "claude",
+  name: "Claude",
+  hosts: ["claude.ai"],
+  jsonEndpoints: JSON_ENDPOINTS,
+  stream: STREAM,
+  dom: DOM,
+};
@@ -0,0 +1,97 @@
+// TimeGPT — Chat provider adapters.
+// Everything that depends on one product's API or markup lives behind this
+// interface: which requests carry timestamps and how to read them (used by
+// the interceptor), and how to find messages, conversation links and
+// timestamp spots in the page (used by the content script). The rest of
+// the extension only talks to the adapter for the current host.
+
+import type {
+  MessageTimestamp,
+  ConversationTimestamp,
+  ConversationDetail,
+  TranscriptMessage,
+} from "../types";
+import type {
+  AnchorStrategy,
+  MessageAnchorContext,
+  SidebarAnchorContext,
+} from "../anchors";
+import { chatgpt, chatgptLegacy } from "./chatgpt";
+import { claude } from "./claude";
+
+// Where extractors hand their results (the interceptor's outbox)
+export interface CaptureSink {
+  putTimestamps(timestamps: Record<string, MessageTimestamp>): void;
+  putConversations(items: Record<string, ConversationTimestamp>): void;
+  putDetail(detail: ConversationDetail): void;
+}
+
+// A JSON API response. The first endpoint whose `matches` accepts a
+// request's URL handles it; `name` is the key its counters are shown
+// under in the diagnostics.
+export interface JsonEndpoint {
+  name: string;
+  matches(url: string): boolean;
+  // Returns a failure reason when the response isn't the expected shape
+  validate(json: unknown): string | null;
+  // Runs after `validate` passed, but still narrows what it reads
+  extract(json: unknown, url: string, sink: CaptureSink): void;
+}
+
+// A streamed (SSE) reply, tapped while the page reads it
+export interface StreamEndpoint {
+  name: string;
+  matches(url: string): boolean;
+  // Key describing an event payload the adapter doesn't recognize, or null
+  classify(data: unknown): string | null;
+  // State for one response; `requestSentAt` is unix seconds
+  open(requestSentAt: number, sink: CaptureSink): StreamParser;
+}
+
+export interface StreamParser {
+  // Each JSON payload of a `data:` line, in order
+  event(data: unknown): void;
+  // The stream ended; may be called more than once
+  finish(): void;
+  // Message timestamps found so far, for diagnostics
+  captured(): number;
+}
+
+export interface ProviderDom {
+  // Elements that each stand for one message
+  messageSelector: string;
+  messageId(el: Element): string | null;
+  role(el: Element): string | null;
+  // The turn wrapping a message: highlighted on jumps, and time-gap
+  // separators go before it
+  turnSelector: string;
+  // Links to conversations in every list that shows them
+  conversationLinkSelector: string;
+  // Just the sidebar history, which the date filter works on
+  historyLinkSelector: string;
+  // Conversation ID from a link's href or the page path
+  conversationId(path: string): string | null;
+  messageAnchors: AnchorStrategy<MessageAnchorContext>[];
+  sidebarAnchors: AnchorStrategy<SidebarAnchorContext>[];
+  // Providers whose markup carries no message IDs tag their messages with
+  // `data-timegpt-message-id`, in order, from the visible branch of the
+  // conversation (its messages, oldest first). Returns whether any label
+  // changed.
+  labelMessages?(root: ParentNode, branch: Array<Pick<TranscriptMessage, "id" | "role">>): boolean;
+}
+
+export interface ProviderAdapter {
+  id: string;
+  // Human-readable, e.g. "ChatGPT"
+  name: string;
+  hosts: string[];
+  jsonEndpoints: JsonEndpoint[];
+  stream: StreamEndpoint | null;
+  dom: ProviderDom;
+}
+
+export const PROVIDERS: ProviderAdapter[] = [chatgpt, chatgptLegacy, claude];
+
+export function providerForHost(hostname: string): ProviderAdapter | null {
+  return PROVIDERS.find((provider) => provider.hosts.includes(hostname)) ?? null;
+}
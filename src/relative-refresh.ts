@@ -0,0 +1,74 @@
+// TimeGPT — Keeps relative timestamps ("5 minutes ago") current.
+// Each rendered element registers the times it shows; one timer wakes up
+// when the earliest of them would read differently and re-renders only
+// the elements that are due, instead of rewriting every timestamp on a
+// fixed interval.
+
+// setTimeout fires immediately for delays above 2^31-1 ms, and a wake-up
+// now and then also catches up after the computer was asleep
+const MAX_DELAY_MS = 60 * 60 * 1000;
+
+export function createRelativeRefresh(options: {
+  // When the text showing `unixSeconds` next changes (ms since epoch), or
+  // null if it never does, e.g. for absolute formats
+  nextChange(unixSeconds: number): number | null;
+  // Re-renders `el`, which calls `track` again with its new times
+  refresh(el: HTMLElement): void;
+}) {
+  // Element → when its text next changes
+  const due = new Map<HTMLElement, number>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let timerAt = Infinity;
+
+  function schedule(at: number): void {
+    if (timer !== null) clearTimeout(timer);
+    timerAt = at;
+    const delay = Math.min(Math.max(at - Date.now(), 0), MAX_DELAY_MS);
+    timer = setTimeout(run, delay);
+  }
+
+  // Waking up early is harmless (nothing is due yet), so untracking an
+  // element never needs to move the timer; only run() recomputes it
+  function rearm(): void {
+    let earliest = Infinity;
+    for (const at of due.values()) earliest = Math.min(earliest, at);
+    if (earliest !== Infinity) schedule(earliest);
+  }
+
+  function run(): void {
+    timer = null;
+    timerAt = Infinity;
+    const now = Date.now();
+    const refreshed: HTMLElement[] = [];
+    for (const [el, at] of due) {
+      if (!el.isConnected) {
+        due.delete(el);
+      } else if (at <= now) {
+        due.delete(el);
+        refreshed.push(el);
+      }
+    }
+    for (const el of refreshed) options.refresh(el);
+    if (__DEBUG__ && refreshed.length > 0) {
+      console.log(`[TimeGPT] Refreshed ${refreshed.length} relative timestamps`);
+    }
+    rearm();
+  }
+
+  return {
+    // Records the times `el` currently shows, replacing earlier ones
+    track(el: HTMLElement, unixTimes: number[]): void {
+      let next: number | null = null;
+      for (const unix of unixTimes) {
+        const at = options.nextChange(unix);
+        if (at !== null && (next === null || at < next)) next = at;
+      }
+      if (next === null) {
+        due.delete(el);
+        return;
+      }
+      due.set(el, next);
+      if (next < timerAt) schedule(next);
+    },
+  };
+}
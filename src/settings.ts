@@ -0,0 +1,375 @@
+// TimeGPT — Settings schema, migrations, profiles and import/export.
+// The active settings are flat keys in chrome.storage.sync (so the content
+// script can react to each one through storage.onChanged). Named profiles
+// are full snapshots stored next to them under "profile:<name>" keys.
+
+import type {
+  TimegptSettings,
+  TimestampFormat,
+  SidebarTimeField,
+  SecondaryZoneDisplay,
+  CopyFormat,
+  SettingField,
+  SettingsExport,
+} from "./types";
+import { isValidLocale, isValidTimeZone, parsePattern } from "./format";
+import { isObject } from "./diagnostics";
+
+// Bump when the stored shape changes, and add a migration below.
+export const SETTINGS_SCHEMA_VERSION = 1;
+
+const VERSION_KEY = "settingsVersion";
+const ACTIVE_PROFILE_KEY = "activeProfile";
+const PROFILE_PREFIX = "profile:";
+const EXPORT_FORMAT: SettingsExport["format"] = "timegpt-settings";
+
+// Each profile is one chrome.storage.sync item, and sync storage allows
+// few of them (and little space), so imports are held to the same limits
+export const MAX_PROFILE_NAME = 40;
+export const MAX_PROFILES = 20;
+
+export const DEFAULT_SETTINGS: TimegptSettings = {
+  timestampFormat: "relative",
+  relativeThresholdDays: 30,
+  showMessageTimestamps: true,
+  showSidebarTimestamps: true,
+  showResponseTiming: false,
+  showSidebarFilter: false,
+  showTimeline: false,
+  showModel: false,
+  showTimeGaps: false,
+  timeGapHours: 6,
+  sidebarTimeField: "created",
+  customMessagePattern: "ddd D MMM, HH:mm",
+  customSidebarPattern: "D MMM YYYY",
+  locale: "",
+  timeZone: "",
+  secondaryTimeZone: "",
+  secondaryTimeZoneDisplay: "tooltip",
+  copyFormat: "iso",
+};
+
+// =============================================
+// SCHEMA (drives validation and the options page)
+// =============================================
+
+const FORMAT_OPTIONS: Array<[TimestampFormat, string]> = [
+  ["relative", "Relative"],
+  ["datetime24", "Date + Time (24h)"],
+  ["datetime12", "Date + Time (12h)"],
+  ["time24", "Time only (24h)"],
+  ["time12", "Time only (12h)"],
+  ["iso", "ISO 8601"],
+  ["custom", "Custom"],
+];
+
+// The format after `format`, in the order the popup lists them
+export function nextTimestampFormat(format: TimestampFormat): TimestampFormat {
+  const index = FORMAT_OPTIONS.findIndex(([id]) => id === format);
+  return FORMAT_OPTIONS[(index + 1) % FORMAT_OPTIONS.length][0];
+}
+
+export function timestampFormatLabel(format: TimestampFormat): string {
+  return FORMAT_OPTIONS.find(([id]) => id === format)?.[1] ?? format;
+}
+
+const SIDEBAR_FIELD_OPTIONS: Array<[SidebarTimeField, string]> = [
+  ["created", "Created"],
+  ["updated", "Last updated"],
+  ["both", "Both"],
+];
+
+const SECONDARY_DISPLAY_OPTIONS: Array<[SecondaryZoneDisplay, string]> = [
+  ["tooltip", "In tooltip"],
+  ["inline", "Inline"],
+];
+
+const COPY_FORMAT_OPTIONS: Array<[CopyFormat, string]> = [
+  ["iso", "ISO 8601 (UTC)"],
+  ["full", "Full date and time"],
+  ["shown", "As shown"],
+  ["unix", "Unix seconds"],
+];
+
+function validatePattern(value: string): string | null {
+  const parsed = parsePattern(value);
+  return parsed.ok ? null : parsed.error;
+}
+
+function validateLocale(value: string): string | null {
+  return !value || isValidLocale(value) ? null : `Unsupported locale "${value}"`;
+}
+
+function validateTimeZone(value: string): string | null {
+  return !value || isValidTimeZone(value) ? null : `Unknown time zone "${value}"`;
+}
+
+export const SETTING_FIELDS: SettingField[] = [
+  { key: "showMessageTimestamps", label: "Messages", section: "Show timestamps", kind: "toggle" },
+  { key: "showSidebarTimestamps", label: "Conversation list", section: "Show timestamps", kind: "toggle" },
+  {
+    key: "sidebarTimeField",
+    label: "Conversation time",
+    section: "Show timestamps",
+    kind: "select",
+    options: SIDEBAR_FIELD_OPTIONS,
+  },
+  { key: "showSidebarFilter", label: "Conversation filter", section: "Show timestamps", kind: "toggle" },
+  { key: "showTimeline", label: "Timeline scrubber", section: "Show timestamps", kind: "toggle" },
+  { key: "showModel", label: "Model name", section: "Show timestamps", kind: "toggle" },
+  { key: "showResponseTiming", label: "Response timing", section: "Show timestamps", kind: "toggle" },
+  { key: "showTimeGaps", label: "Time-gap separators", section: "Show timestamps", kind: "toggle" },
+  {
+    key: "timeGapHours",
+    label: "Gap longer than",
+    section: "Show timestamps",
+    kind: "select",
+    options: [["1", "1 hour"], ["3", "3 hours"], ["6", "6 hours"], ["12", "12 hours"], ["24", "1 day"], ["72", "3 days"]],
+  },
+  { key: "timestampFormat", label: "Format", section: "Format", kind: "select", options: FORMAT_OPTIONS },
+  {
+    key: "relativeThresholdDays",
+    label: "Relative: show a date after",
+    section: "Format",
+    kind: "select",
+    options: [["1", "1 day"], ["7", "1 week"], ["30", "30 days"], ["365", "1 year"], ["0", "Never"]],
+  },
+  {
+    key: "copyFormat",
+    label: "Clicking a timestamp copies",
+    section: "Format",
+    kind: "select",
+    options: COPY_FORMAT_OPTIONS,
+  },
+  {
+    key: "customMessagePattern",
+    label: "Custom: message pattern",
+    section: "Format",
+    kind: "text",
+    validate: validatePattern,
+  },
+  {
+    key: "customSidebarPattern",
+    label: "Custom: conversation list pattern",
+    section: "Format",
+    kind: "text",
+    validate: validatePattern,
+  },
+  {
+    key: "locale",
+    label: "Locale",
+    section: "Time zone & locale",
+    kind: "text",
+    placeholder: "Browser default",
+    validate: validateLocale,
+  },
+  {
+    key: "timeZone",
+    label: "Time zone",
+    section: "Time zone & locale",
+    kind: "text",
+    placeholder: "Browser default",
+    validate: validateTimeZone,
+  },
+  {
+    key: "secondaryTimeZone",
+    label: "Secondary time zone",
+    section: "Time zone & locale",
+    kind: "text",
+    placeholder: "None",
+    validate: validateTimeZone,
+  },
+  {
+    key: "secondaryTimeZoneDisplay",
+    label: "Show secondary zone",
+    section: "Time zone & locale",
+    kind: "select",
+    options: SECONDARY_DISPLAY_OPTIONS,
+  },
+];
+
+// Keeps every known key whose value fits the schema; anything missing,
+// mistyped or invalid falls back to its default.
+export function normalizeSettings(raw: Record<string, unknown>): TimegptSettings {
+  const settings: TimegptSettings = { ...DEFAULT_SETTINGS };
+  for (const field of SETTING_FIELDS) {
+    const value = raw[field.key];
+    const next = typeof value === "string" ? value.trim() : value;
+    if (field.options && !field.options.some(([option]) => option === String(next))) continue;
+    if (field.validate && (typeof next !== "string" || field.validate(next) !== null)) continue;
+    setField(settings, field.key, next);
+  }
+  return settings;
+}
+
+function fitsField<K extends keyof TimegptSettings>(key: K, value: unknown): value is TimegptSettings[K] {
+  return typeof value === typeof DEFAULT_SETTINGS[key];
+}
+
+// Writes `value` only if it has the same type as the key's default
+function setField<K extends keyof TimegptSettings>(settings: TimegptSettings, key: K, value: unknown): void {
+  if (fitsField(key, value)) settings[key] = value;
+}
+
+// =============================================
+// MIGRATIONS
+// =============================================
+
+// Migrations keyed by the version they upgrade *from*. Each one receives
+// the raw stored settings and returns the next version's shape.
+const MIGRATIONS: Record<number, (stored: Record<string, unknown>) => Record<string, unknown>> = {
+  // Unversioned settings already use today's flat keys
+  0: (stored) => stored,
+};
+
+function migrate(stored: Record<string, unknown>, version: number): Record<string, unknown> | null {
+  while (version < SETTINGS_SCHEMA_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) return null;
+    stored = step(stored);
+    version++;
+  }
+  // Written by a newer build — we can't read it safely
+  if (version > SETTINGS_SCHEMA_VERSION) return null;
+  return stored;
+}
+
+// The active settings, migrated (and written back) if they are from an
+// older build
+export async function loadSettings(): Promise<TimegptSettings> {
+  const stored = await chrome.storage.sync.get(null);
+  const version = typeof stored[VERSION_KEY] === "number" ? (stored[VERSION_KEY] as number) : 0;
+  const migrated = migrate(stored, version);
+  if (!migrated) return normalizeSettings(stored);
+
+  const settings = normalizeSettings(migrated);
+  if (version !== SETTINGS_SCHEMA_VERSION) {
+    await chrome.storage.sync.set({ ...settings, [VERSION_KEY]: SETTINGS_SCHEMA_VERSION });
+    if (__DEBUG__) console.log(`[TimeGPT] Migrated settings from version ${version}`);
+  }
+  return settings;
+}
+
+export async function saveSettings(settings: Partial<TimegptSettings>): Promise<void> {
+  await chrome.storage.sync.set(settings);
+}
+
+// =============================================
+// PROFILES
+// =============================================
+
+export async function loadProfiles(): Promise<Record<string, TimegptSettings>> {
+  const stored = await chrome.storage.sync.get(null);
+  const profiles: Record<string, TimegptSettings> = {};
+  for (const [key, value] of Object.entries(stored)) {
+    if (!key.startsWith(PROFILE_PREFIX) || typeof value !== "object" || value === null) continue;
+    profiles[key.slice(PROFILE_PREFIX.length)] = normalizeSettings(value as Record<string, unknown>);
+  }
+  return profiles;
+}
+
+// Rejects names that are too long, and new profiles past MAX_PROFILES
+export async function saveProfile(name: string, settings: TimegptSettings): Promise<void> {
+  if (name.length > MAX_PROFILE_NAME) {
+    throw new Error(`Profile names can be at most ${MAX_PROFILE_NAME} characters`);
+  }
+  const names = Object.keys(await loadProfiles());
+  if (!names.includes(name) && names.length >= MAX_PROFILES) {
+    throw new Error(`There can be at most ${MAX_PROFILES} profiles — delete one first`);
+  }
+  await chrome.storage.sync.set({ [PROFILE_PREFIX + name]: settings, [ACTIVE_PROFILE_KEY]: name });
+}
+
+export async function deleteProfile(name: string): Promise<void> {
+  await chrome.storage.sync.remove(PROFILE_PREFIX + name);
+  if ((await getActiveProfile()) === name) await chrome.storage.sync.remove(ACTIVE_PROFILE_KEY);
+}
+
+// Makes a profile's settings the active ones
+export async function applyProfile(name: string): Promise<boolean> {
+  const profile = (await loadProfiles())[name];
+  if (!profile) return false;
+  await chrome.storage.sync.set({ ...profile, [ACTIVE_PROFILE_KEY]: name });
+  return true;
+}
+
+// The profile applied or saved last; the settings may have changed since
+export async function getActiveProfile(): Promise<string | null> {
+  const stored = await chrome.storage.sync.get(ACTIVE_PROFILE_KEY);
+  const name = stored[ACTIVE_PROFILE_KEY];
+  return typeof name === "string" ? name : null;
+}
+
+export function sameSettings(a: TimegptSettings, b: TimegptSettings): boolean {
+  return SETTING_FIELDS.every((field) => a[field.key] === b[field.key]);
+}
+
+// =============================================
+// IMPORT / EXPORT
+// =============================================
+
+export function buildSettingsExport(
+  settings: TimegptSettings,
+  profiles: Record<string, TimegptSettings>
+): SettingsExport {
+  return { format: EXPORT_FORMAT, version: SETTINGS_SCHEMA_VERSION, settings, profiles };
+}
+
+export type ParsedSettingsImport =
+  | { ok: true; settings: TimegptSettings; profiles: Record<string, TimegptSettings> }
+  | { ok: false; error: string };
+
+// Accepts files exported by this or an older version
+export function parseSettingsImport(text: string): ParsedSettingsImport {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "Not a JSON file" };
+  }
+  const file = json as Partial<SettingsExport> | null;
+  if (file?.format !== EXPORT_FORMAT || typeof file.version !== "number") {
+    return { ok: false, error: "Not a TimeGPT settings file" };
+  }
+  if (file.version > SETTINGS_SCHEMA_VERSION) {
+    return { ok: false, error: "Exported by a newer version of TimeGPT — update first" };
+  }
+
+  const version = file.version;
+  const upgrade = (raw: unknown) => {
+    const migrated = isObject(raw) ? migrate({ ...raw }, version) : null;
+    return migrated ? normalizeSettings(migrated) : null;
+  };
+  const settings = upgrade(file.settings ?? {});
+  if (!settings) return { ok: false, error: `Can't read settings version ${version}` };
+
+  const rawProfiles: unknown = file.profiles ?? {};
+  if (!isObject(rawProfiles)) return { ok: false, error: "Profiles aren't a list of named settings" };
+  const entries = Object.entries(rawProfiles);
+  if (entries.length > MAX_PROFILES) {
+    return { ok: false, error: `Too many profiles (${entries.length}, at most ${MAX_PROFILES})` };
+  }
+
+  const profiles: Record<string, TimegptSettings> = {};
+  for (const [rawName, raw] of entries) {
+    const name = rawName.trim();
+    if (!name || name.length > MAX_PROFILE_NAME) {
+      return { ok: false, error: `Profile names must be 1–${MAX_PROFILE_NAME} characters` };
+    }
+    const profile = upgrade(raw);
+    if (profile) profiles[name] = profile;
+  }
+  return { ok: true, settings, profiles };
+}
+
+// Replaces the active settings and adds (or overwrites) the profiles
+export async function importSettings(settings: TimegptSettings, profiles: Record<string, TimegptSettings>): Promise<void> {
+  const names = new Set([...Object.keys(await loadProfiles()), ...Object.keys(profiles)]);
+  if (names.size > MAX_PROFILES) {
+    throw new Error(`That would make ${names.size} profiles, and there can be at most ${MAX_PROFILES}`);
+  }
+  const entries: Record<string, unknown> = { ...settings, [VERSION_KEY]: SETTINGS_SCHEMA_VERSION };
+  for (const [name, profile] of Object.entries(profiles)) entries[PROFILE_PREFIX + name] = profile;
+  await chrome.storage.sync.set(entries);
+  await chrome.storage.sync.remove(ACTIVE_PROFILE_KEY);
+}
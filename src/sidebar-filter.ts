@@ -0,0 +1,225 @@
+// TimeGPT — Date-range filter and date grouping for the sidebar conversation list.
+// Injects a small control above the list, hides conversations outside the
+// selected range and optionally inserts month/week group headers.
+
+import type { ConversationTimestamp } from "./types";
+import type { ProviderDom } from "./providers";
+import type { ZoneOptions } from "./format";
+import { addDays, calendarDay, formatDay, isoToUnix, parseDateTime, weekdayOf } from "./format";
+
+const RANGE_PRESETS = ["all", "today", "7d", "30d", "custom"] as const;
+const DATE_FIELDS = ["created", "updated"] as const;
+const GROUPINGS = ["none", "month", "week"] as const;
+
+type RangePreset = (typeof RANGE_PRESETS)[number];
+type DateField = (typeof DATE_FIELDS)[number];
+type Grouping = (typeof GROUPINGS)[number];
+
+interface FilterState {
+  range: RangePreset;
+  field: DateField;
+  grouping: Grouping;
+  // "YYYY-MM-DD" from <input type="date">, inclusive
+  from: string;
+  to: string;
+}
+
+function isOneOf<T extends string>(value: string, options: readonly T[]): value is T {
+  return (options as readonly string[]).includes(value);
+}
+
+// Days and ranges are in `zone()`, the time zone timestamps are shown in
+export function createSidebarFilter(
+  getConversation: (id: string) => ConversationTimestamp | undefined,
+  dom: ProviderDom,
+  zone: () => ZoneOptions
+) {
+  const state: FilterState = { range: "all", field: "created", grouping: "none", from: "", to: "" };
+  let bar: HTMLElement | null = null;
+
+  function conversationId(link: Element): string | null {
+    const href = link.getAttribute("href");
+    return href ? dom.conversationId(href) : null;
+  }
+
+  function timeOf(info: ConversationTimestamp, field: DateField): number {
+    const iso = field === "updated" ? info.updateTime ?? info.createTime : info.createTime;
+    return isoToUnix(iso) * 1000;
+  }
+
+  // Midnight at the start of a "YYYY-MM-DD" day, in epoch ms
+  function startOfDay(day: string): number {
+    const unix = parseDateTime(day, zone());
+    return unix === null ? NaN : unix * 1000;
+  }
+
+  // [start, end) in epoch ms, or null when not filtering
+  function activeRange(): [number, number] | null {
+    const today = calendarDay(new Date(), zone());
+
+    switch (state.range) {
+      case "today":
+        return [startOfDay(today), Infinity];
+      case "7d":
+        return [startOfDay(addDays(today, -6)), Infinity];
+      case "30d":
+        return [startOfDay(addDays(today, -29)), Infinity];
+      case "custom": {
+        // Date inputs give whole days; "to" is inclusive
+        const from = state.from ? startOfDay(state.from) : -Infinity;
+        const to = state.to ? startOfDay(addDays(state.to, 1)) : Infinity;
+        return [from, to];
+      }
+      default:
+        return null;
+    }
+  }
+
+  function groupLabel(ms: number): { key: string; label: string } {
+    const { locale } = zone();
+    const day = calendarDay(new Date(ms), zone());
+    if (state.grouping === "week") {
+      // Weeks start on Monday
+      const monday = addDays(day, -((weekdayOf(day) + 6) % 7));
+      return {
+        key: `w${monday}`,
+        label: `Week of ${formatDay(monday, { month: "short", day: "numeric", year: "numeric" }, locale)}`,
+      };
+    }
+    return {
+      key: `m${day.slice(0, 7)}`,
+      label: formatDay(day, { month: "long", year: "numeric" }, locale),
+    };
+  }
+
+  // Values come from the bar's own options and date inputs
+  function setFilter(key: keyof FilterState, value: string): void {
+    switch (key) {
+      case "range":
+        if (isOneOf(value, RANGE_PRESETS)) state.range = value;
+        break;
+      case "field":
+        if (isOneOf(value, DATE_FIELDS)) state.field = value;
+        break;
+      case "grouping":
+        if (isOneOf(value, GROUPINGS)) state.grouping = value;
+        break;
+      case "from":
+      case "to":
+        state[key] = value;
+        break;
+    }
+  }
+
+  function ensureBar(firstLink: Element): void {
+    if (bar?.isConnected) return;
+    bar = buildBar();
+    firstLink.before(bar);
+  }
+
+  function buildBar(): HTMLElement {
+    const el = document.createElement("div");
+    el.className = "timegpt-filter";
+    el.innerHTML = `
+      <div class="timegpt-filter-row">
+        <select data-filter="range" aria-label="Show conversations from">
+          <option value="all">All time</option>
+          <option value="today">Today</option>
+          <option value="7d">Last 7 days</option>
+          <option value="30d">Last 30 days</option>
+          <option value="custom">Between…</option>
+        </select>
+        <select data-filter="field" aria-label="Filter by">
+          <option value="created">Created</option>
+          <option value="updated">Updated</option>
+        </select>
+        <select data-filter="grouping" aria-label="Group by">
+          <option value="none">No groups</option>
+          <option value="month">By month</option>
+          <option value="week">By week</option>
+        </select>
+      </div>
+      <div class="timegpt-filter-row" data-filter-custom hidden>
+        <input type="date" data-filter="from" aria-label="From">
+        <span>–</span>
+        <input type="date" data-filter="to" aria-label="To">
+      </div>
+      <div class="timegpt-filter-status" aria-live="polite"></div>
+    `;
+
+    for (const input of el.querySelectorAll<HTMLInputElement | HTMLSelectElement>("[data-filter]")) {
+      const key = input.dataset.filter as keyof FilterState;
+      input.value = state[key];
+      input.addEventListener("change", () => {
+        setFilter(key, input.value);
+        apply();
+      });
+    }
+    // Keep the site's sidebar keyboard shortcuts and link handlers out of it
+    el.addEventListener("click", (e) => e.stopPropagation());
+    el.addEventListener("keydown", (e) => e.stopPropagation());
+    return el;
+  }
+
+  function apply(): void {
+    const links = document.querySelectorAll<HTMLAnchorElement>(dom.historyLinkSelector);
+    if (links.length === 0) return;
+    ensureBar(links[0]);
+
+    const range = activeRange();
+    const wantedHeaders = new Set<Element>();
+    // Each group gets one header, where its first conversation is listed
+    const seenGroups = new Set<string>();
+    let shown = 0;
+
+    for (const link of links) {
+      const id = conversationId(link);
+      const info = id ? getConversation(id) : undefined;
+      const ms = info ? timeOf(info, state.field) : null;
+
+      // Unknown conversations can't be placed in a range, so they are
+      // hidden while a filter is active
+      const visible = !range || (ms !== null && ms >= range[0] && ms < range[1]);
+      link.classList.toggle("timegpt-filtered", !visible);
+      if (!visible) continue;
+      shown++;
+
+      // The sites list conversations by latest activity, so groups follow
+      // updated time whichever time the range filters by; grouping by
+      // created time would split groups up and repeat their headers
+      if (state.grouping === "none" || !info) continue;
+      const group = groupLabel(timeOf(info, "updated"));
+      if (seenGroups.has(group.key)) continue;
+      seenGroups.add(group.key);
+
+      let header = link.previousElementSibling;
+      if (!header?.classList.contains("timegpt-sidebar-group")) {
+        header = document.createElement("div");
+        header.className = "timegpt-sidebar-group";
+        link.before(header);
+      }
+      if (header.textContent !== group.label) header.textContent = group.label;
+      wantedHeaders.add(header);
+    }
+
+    document.querySelectorAll(".timegpt-sidebar-group").forEach((el) => {
+      if (!wantedHeaders.has(el)) el.remove();
+    });
+
+    if (bar) {
+      bar.querySelector<HTMLElement>("[data-filter-custom]")!.hidden = state.range !== "custom";
+      bar.querySelector(".timegpt-filter-status")!.textContent = range
+        ? `${shown} of ${links.length} conversations`
+        : "";
+    }
+  }
+
+  function remove(): void {
+    bar?.remove();
+    bar = null;
+    document.querySelectorAll(".timegpt-sidebar-group").forEach((el) => el.remove());
+    document.querySelectorAll(".timegpt-filtered").forEach((el) => el.classList.remove("timegpt-filtered"));
+  }
+
+  return { apply, remove };
+}
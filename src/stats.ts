@@ -0,0 +1,52 @@
+// TimeGPT — Statistics for a single conversation, computed from its transcript.
+
+import type { ConversationDetail, ConversationStats } from "./types";
+
+export function computeStats(detail: ConversationDetail): ConversationStats {
+  const countsByRole: Record<string, number> = {};
+  for (const msg of detail.messages) {
+    const role = msg.role || "unknown";
+    countsByRole[role] = (countsByRole[role] ?? 0) + 1;
+  }
+
+  const timed = detail.messages
+    .filter((msg) => msg.createTime != null)
+    .sort((a, b) => a.createTime! - b.createTime!);
+
+  const first = timed[0]?.createTime ?? null;
+  const last = timed[timed.length - 1]?.createTime ?? null;
+
+  // Average time from a user prompt to the first assistant reply after it
+  const replyGaps: number[] = [];
+  let pendingPrompt: number | null = null;
+  for (const msg of timed) {
+    if (msg.role === "user") {
+      pendingPrompt = msg.createTime;
+    } else if (msg.role === "assistant" && pendingPrompt !== null) {
+      replyGaps.push(msg.createTime! - pendingPrompt);
+      pendingPrompt = null;
+    }
+  }
+
+  // Longest pause between any two consecutive messages
+  let longestIdle: ConversationStats["longestIdle"] = null;
+  for (let i = 1; i < timed.length; i++) {
+    const gap = timed[i].createTime! - timed[i - 1].createTime!;
+    if (!longestIdle || gap > longestIdle.seconds) {
+      longestIdle = { seconds: gap, from: timed[i - 1].createTime!, to: timed[i].createTime! };
+    }
+  }
+
+  return {
+    title: detail.title,
+    createTime: detail.createTime,
+    firstMessageTime: first,
+    lastMessageTime: last,
+    spanSeconds: first !== null && last !== null ? last - first : null,
+    messageCount: detail.messages.length,
+    countsByRole,
+    averageReplySeconds:
+      replyGaps.length > 0 ? replyGaps.reduce((sum, gap) => sum + gap, 0) / replyGaps.length : null,
+    longestIdle,
+  };
+}
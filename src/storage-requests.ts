@@ -0,0 +1,28 @@
+// TimeGPT — Storage writes applied by the background worker. Cache and
+// usage history batches from every tab, and clears from the popup and
+// dashboard, go through its one queue so read-merge-write cycles never
+// overlap (see background.ts). The last failure is kept in session storage,
+// which has its own quota, so the popup can show it.
+
+import type { TimegptStorageRequest, TimegptStorageResponse } from "./types";
+
+const WRITE_ERROR_KEY = "storageWriteError";
+
+// Resolves once the worker has applied the request; rejects with its error
+export async function sendStorageRequest(request: TimegptStorageRequest): Promise<void> {
+  const response: TimegptStorageResponse | undefined = await chrome.runtime.sendMessage(request);
+  if (!response) throw new Error("The background worker didn't respond");
+  if (!response.ok) throw new Error(response.error);
+}
+
+export async function getStorageWriteError(): Promise<string | null> {
+  const stored = await chrome.storage.session.get(WRITE_ERROR_KEY);
+  const error = stored[WRITE_ERROR_KEY];
+  return typeof error === "string" ? error : null;
+}
+
+// Null once a write succeeds again
+export async function setStorageWriteError(error: string | null): Promise<void> {
+  if (error === null) await chrome.storage.session.remove(WRITE_ERROR_KEY);
+  else await chrome.storage.session.set({ [WRITE_ERROR_KEY]: error });
+}
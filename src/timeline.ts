@@ -0,0 +1,128 @@
+// TimeGPT — Timeline scrubber for jumping through long conversations by time.
+// A slim vertical track beside the chat with one tick per message, placed
+// by its creation time, plus labels where a new day starts.
+
+import type { MessageTimestamp } from "./types";
+import type { ProviderDom } from "./providers";
+
+export interface TimelineOptions {
+  dom: ProviderDom;
+  getTimestamp: (id: string) => MessageTimestamp | undefined;
+  // IDs of the messages indexed on the page (see dom-index.ts)
+  messageIds: () => string[];
+  // Rendered elements of a message
+  messageElements: (id: string) => Element[];
+  // Full time for the tick tooltip
+  formatTime: (unixSeconds: number) => string;
+  // Calendar day a time falls on, in the user's time zone
+  dayOf: (unixSeconds: number) => { key: string; label: string };
+  // Called after scrolling to a message, e.g. to highlight it
+  onJump?: (turn: Element) => void;
+}
+
+interface TimelineEntry {
+  id: string;
+  createTime: number;
+}
+
+export function createTimeline(options: TimelineOptions) {
+  let root: HTMLElement | null = null;
+  let signature = "";
+  let frame: number | null = null;
+
+  function collect(): TimelineEntry[] {
+    const entries: TimelineEntry[] = [];
+    for (const id of options.messageIds()) {
+      const info = options.getTimestamp(id);
+      // Only messages still on the page
+      const turn = info ? options.messageElements(id)[0]?.closest(options.dom.turnSelector) : null;
+      if (!info || !turn) continue;
+      entries.push({ id, createTime: info.createTime });
+    }
+    return entries.sort((a, b) => a.createTime - b.createTime);
+  }
+
+  function ensureRoot(): HTMLElement {
+    if (root?.isConnected) return root;
+    root = document.createElement("nav");
+    root.className = "timegpt-timeline";
+    root.setAttribute("aria-label", "Conversation timeline");
+    document.body.appendChild(root);
+    return root;
+  }
+
+  function render(): void {
+    frame = null;
+    const entries = collect();
+    if (entries.length < 2) {
+      remove();
+      return;
+    }
+
+    // Skip the rebuild when nothing moved (most mutations are unrelated)
+    const nextSignature = entries.map((e) => `${e.id}@${e.createTime}`).join("|");
+    if (nextSignature === signature && root?.isConnected) return;
+    signature = nextSignature;
+
+    const first = entries[0].createTime;
+    const span = entries[entries.length - 1].createTime - first || 1;
+    const position = (time: number) => `${((time - first) / span) * 100}%`;
+
+    const nodes: HTMLElement[] = [];
+    let lastDay: string | null = null;
+
+    for (const entry of entries) {
+      const day = options.dayOf(entry.createTime);
+      if (day.key !== lastDay) {
+        lastDay = day.key;
+        const label = document.createElement("span");
+        label.className = "timegpt-timeline-day";
+        label.style.top = position(entry.createTime);
+        label.textContent = day.label;
+        nodes.push(label);
+      }
+
+      const tick = document.createElement("button");
+      tick.type = "button";
+      tick.className = "timegpt-timeline-tick";
+      tick.style.top = position(entry.createTime);
+      const time = options.formatTime(entry.createTime);
+      tick.title = time;
+      tick.setAttribute("aria-label", `Jump to message from ${time}`);
+      // The site may have replaced the turn since, so find it again
+      tick.addEventListener("click", () => {
+        const turn = options.messageElements(entry.id)[0]?.closest(options.dom.turnSelector);
+        if (!turn) return;
+        turn.scrollIntoView({ behavior: "smooth", block: "center" });
+        options.onJump?.(turn);
+      });
+      nodes.push(tick);
+    }
+
+    ensureRoot().replaceChildren(...nodes);
+  }
+
+  // Batches bursts of DOM mutations and streamed messages into one render
+  function update(): void {
+    if (frame !== null) return;
+    frame = requestAnimationFrame(render);
+  }
+
+  // Makes the next update rebuild even if the same messages are shown,
+  // e.g. after the time zone or locale changed
+  function invalidate(): void {
+    signature = "";
+  }
+
+  function remove(): void {
+    if (frame !== null) {
+      cancelAnimationFrame(frame);
+      frame = null;
+    }
+    root?.remove();
+    root = null;
+    signature = "";
+  }
+
+  return { update, invalidate, remove };
+}
@@ -0,0 +1,92 @@
+// TimeGPT — Right-click menu on message timestamps. One menu element is
+// reused; it closes on Escape, an outside click, scrolling or blur.
+
+export interface MenuItem {
+  label: string;
+  run: () => void;
+}
+
+export function createTimestampMenu() {
+  let root: HTMLElement | null = null;
+  // Focus returns here when the menu closes from the keyboard
+  let opener: HTMLElement | null = null;
+
+  function ensureRoot(): HTMLElement {
+    if (root?.isConnected) return root;
+    root = document.createElement("div");
+    root.className = "timegpt-menu";
+    root.setAttribute("role", "menu");
+    root.hidden = true;
+    root.addEventListener("keydown", onKeyDown);
+    document.body.appendChild(root);
+    return root;
+  }
+
+  function items(): HTMLButtonElement[] {
+    return root ? [...root.querySelectorAll<HTMLButtonElement>(".timegpt-menu-item")] : [];
+  }
+
+  function onKeyDown(e: KeyboardEvent): void {
+    const buttons = items();
+    const index = buttons.indexOf(document.activeElement as HTMLButtonElement);
+    if (e.key === "Escape") {
+      close();
+      opener?.focus();
+    } else if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      buttons[(index + step + buttons.length) % buttons.length]?.focus();
+    } else if (e.key === "Tab") {
+      close();
+      return;
+    } else {
+      return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+  }
+
+  function onOutside(e: Event): void {
+    if (root && e.target instanceof Node && root.contains(e.target)) return;
+    close();
+  }
+
+  // `x`/`y` are viewport coordinates; the menu is kept on screen
+  function open(x: number, y: number, entries: MenuItem[], from: HTMLElement): void {
+    const menu = ensureRoot();
+    opener = from;
+    menu.replaceChildren(
+      ...entries.map((entry) => {
+        const button = document.createElement("button");
+        button.type = "button";
+        button.className = "timegpt-menu-item";
+        button.setAttribute("role", "menuitem");
+        button.textContent = entry.label;
+        button.addEventListener("click", (e) => {
+          e.stopPropagation();
+          close();
+          entry.run();
+        });
+        return button;
+      })
+    );
+    menu.hidden = false;
+    const { width, height } = menu.getBoundingClientRect();
+    menu.style.left = `${Math.max(4, Math.min(x, window.innerWidth - width - 4))}px`;
+    menu.style.top = `${Math.max(4, Math.min(y, window.innerHeight - height - 4))}px`;
+    items()[0]?.focus();
+
+    document.addEventListener("pointerdown", onOutside, true);
+    document.addEventListener("scroll", close, true);
+    window.addEventListener("blur", close);
+  }
+
+  function close(): void {
+    if (!root || root.hidden) return;
+    root.hidden = true;
+    document.removeEventListener("pointerdown", onOutside, true);
+    document.removeEventListener("scroll", close, true);
+    window.removeEventListener("blur", close);
+  }
+
+  return { open, close };
+}
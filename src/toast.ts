@@ -0,0 +1,24 @@
+// TimeGPT — Short in-page notices, e.g. confirming a keyboard shortcut
+
+const VISIBLE_MS = 1800;
+
+export function createToast() {
+  let el: HTMLElement | null = null;
+  let hideTimer: ReturnType<typeof setTimeout> | null = null;
+
+  function show(text: string): void {
+    if (!el?.isConnected) {
+      el = document.createElement("div");
+      el.className = "timegpt-toast";
+      el.setAttribute("role", "status");
+      el.setAttribute("aria-live", "polite");
+      document.body.appendChild(el);
+    }
+    el.textContent = text;
+    el.classList.add("timegpt-toast--visible");
+    if (hideTimer !== null) clearTimeout(hideTimer);
+    hideTimer = setTimeout(() => el?.classList.remove("timegpt-toast--visible"), VISIBLE_MS);
+  }
+
+  return { show };
+}
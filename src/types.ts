@@ -3,6 +3,24 @@
 export interface MessageTimestamp {
   createTime: number;
   role: string | null;
+  // Only present for assistant messages streamed while the tab was open
+  timing?: MessageTiming;
+  // Parent node in the conversation tree. Messages sharing a parent are
+  // versions of each other (edits or regenerations).
+  parentId?: string | null;
+  // Model that wrote an assistant message, e.g. "gpt-4o"
+  model?: string | null;
+  // Name of the tool that produced the message, e.g. "python"
+  tool?: string | null;
+  // Sent as a regeneration of an earlier reply
+  regenerated?: boolean;
+}
+
+// Response latency for a streamed assistant message (unix seconds)
+export interface MessageTiming {
+  requestSentAt: number;
+  firstTokenAt: number | null;
+  completedAt: number | null;
 }
 
 export interface ConversationTimestamp {
@@ -11,26 +29,299 @@ export interface ConversationTimestamp {
   title: string | null;
 }
 
+// A message in the visible branch of a conversation, kept for export
+export interface TranscriptMessage {
+  id: string;
+  role: string | null;
+  createTime: number | null;
+  text: string;
+}
+
+// Title and transcript of a conversation (unix seconds). In memory only.
+export interface ConversationDetail {
+  id: string;
+  title: string | null;
+  createTime: number | null;
+  updateTime: number | null;
+  messages: TranscriptMessage[];
+}
+
+export type ExportFormat = "markdown" | "json" | "csv";
+
+export interface ConversationStats {
+  title: string | null;
+  // All times are unix seconds, durations in seconds
+  createTime: number | null;
+  firstMessageTime: number | null;
+  lastMessageTime: number | null;
+  spanSeconds: number | null;
+  messageCount: number;
+  countsByRole: Record<string, number>;
+  averageReplySeconds: number | null;
+  longestIdle: { seconds: number; from: number; to: number } | null;
+}
+
+// Wrapper for entries persisted in the local timestamp cache
+export interface CachedEntry<T> {
+  value: T;
+  // When the entry was last written or shown (ms), for eviction
+  cachedAt: number;
+}
+
+export interface TimestampCache {
+  messages: Record<string, MessageTimestamp>;
+  conversations: Record<string, ConversationTimestamp>;
+}
+
+// A tab's batched cache changes, sent to the background worker so
+// writes from several tabs don't overwrite each other
+export interface TimegptCacheWriteRequest {
+  type: "TIMEGPT_CACHE_WRITE";
+  messages: Record<string, MessageTimestamp>;
+  conversations: Record<string, ConversationTimestamp>;
+  // Cached entries that were shown again, to keep them from eviction
+  usedMessages: string[];
+  usedConversations: string[];
+}
+
+export interface TimegptCacheClearRequest {
+  type: "TIMEGPT_CACHE_CLEAR";
+}
+
+// Local usage history for the dashboard (unix seconds)
+export interface UsageHistory {
+  version: number;
+  // conversation ID → [createTime, updateTime]
+  conversations: Record<string, [number, number]>;
+  // message ID → createTime
+  messages: Record<string, number>;
+}
+
+// A tab's batched usage entries, applied by the background worker like
+// cache writes
+export interface TimegptUsageWriteRequest {
+  type: "TIMEGPT_USAGE_WRITE";
+  conversations: UsageHistory["conversations"];
+  messages: UsageHistory["messages"];
+}
+
+export interface TimegptUsageClearRequest {
+  type: "TIMEGPT_USAGE_CLEAR";
+}
+
+// Storage writes the background worker applies one at a time
+export type TimegptStorageRequest =
+  | TimegptCacheWriteRequest
+  | TimegptCacheClearRequest
+  | TimegptUsageWriteRequest
+  | TimegptUsageClearRequest;
+
+export type TimegptStorageResponse = { ok: true } | { ok: false; error: string };
+
 export type TimestampFormat =
   | "relative"
   | "datetime24"
   | "datetime12"
   | "time24"
   | "time12"
-  | "iso";
+  | "iso"
+  | "custom";
+
+// Which conversation time the sidebar shows
+export type SidebarTimeField = "created" | "updated" | "both";
+
+// Where the secondary time zone is shown
+export type SecondaryZoneDisplay = "tooltip" | "inline";
+
+// What clicking a message timestamp copies
+export type CopyFormat = "iso" | "full" | "shown" | "unix";
 
 export interface TimegptSettings {
   timestampFormat: TimestampFormat;
+  // Days after which relative times switch to a date; 0 = never
+  relativeThresholdDays: number;
   showMessageTimestamps: boolean;
   showSidebarTimestamps: boolean;
+  showResponseTiming: boolean;
+  showSidebarFilter: boolean;
+  showTimeline: boolean;
+  showModel: boolean;
+  showTimeGaps: boolean;
+  timeGapHours: number;
+  sidebarTimeField: SidebarTimeField;
+  // Token patterns used when timestampFormat is "custom"
+  customMessagePattern: string;
+  customSidebarPattern: string;
+  // BCP 47 locale and IANA time zones; empty means browser default / none
+  locale: string;
+  timeZone: string;
+  secondaryTimeZone: string;
+  secondaryTimeZoneDisplay: SecondaryZoneDisplay;
+  copyFormat: CopyFormat;
+}
+
+// One setting as the options page shows it; also used to validate
+// stored and imported values
+export interface SettingField {
+  key: keyof TimegptSettings;
+  label: string;
+  section: "Show timestamps" | "Format" | "Time zone & locale";
+  kind: "toggle" | "select" | "text";
+  // Allowed values for selects, with their labels
+  options?: Array<[string, string]>;
+  placeholder?: string;
+  // Returns an error message for text values that can't be used
+  validate?(value: string): string | null;
+}
+
+// Settings file written by "Export" on the options page
+export interface SettingsExport {
+  format: "timegpt-settings";
+  // Settings schema version the file was written with
+  version: number;
+  settings: TimegptSettings;
+  // Named profiles, e.g. "screenshots" or "daily"
+  profiles: Record<string, TimegptSettings>;
+}
+
+// Interceptor (MAIN world) ↔ content script (ISOLATED world). Only the
+// handshake goes over window.postMessage; everything else uses the
+// private MessagePort it hands over.
+export interface TimegptConnectMessage {
+  type: "TIMEGPT_CONNECT";
+}
+
+// Asks the interceptor to re-send everything not yet acknowledged
+export interface TimegptDrainRequest {
+  type: "TIMEGPT_DRAIN_REQUEST";
+}
+
+// Confirms every batch up to and including `seq` was received, so the
+// interceptor can free it
+export interface TimegptAckMessage {
+  type: "TIMEGPT_ACK";
+  seq: number;
 }
 
 export interface TimegptTimestampsMessage {
   type: "TIMEGPT_TIMESTAMPS";
+  seq: number;
   timestamps: Record<string, MessageTimestamp>;
 }
 
 export interface TimegptConversationsMessage {
   type: "TIMEGPT_CONVERSATIONS";
+  seq: number;
   conversations: Record<string, ConversationTimestamp>;
 }
+
+export interface TimegptConversationDetailMessage {
+  type: "TIMEGPT_CONVERSATION_DETAIL";
+  seq: number;
+  detail: ConversationDetail;
+}
+
+// Capture counters from the interceptor, for the popup's diagnostics
+export interface EndpointCounts {
+  // Requests whose URL matched the endpoint
+  matched: number;
+  // Responses that had the expected shape
+  parsed: number;
+  // Responses that didn't (see validationFailures for why)
+  invalid: number;
+  httpErrors: number;
+}
+
+export interface CaptureDiagnostics {
+  endpoints: Record<string, EndpointCounts>;
+  sseEvents: number;
+  // e.g. "type:new_event_kind" → count
+  unknownSseEvents: Record<string, number>;
+  // e.g. "conversation: mapping missing" → count
+  validationFailures: Record<string, number>;
+  lastFailure: { reason: string; at: number } | null;
+}
+
+// Latest counters; not sequenced or acknowledged since each one replaces
+// the previous
+export interface TimegptDiagnosticsMessage {
+  type: "TIMEGPT_DIAGNOSTICS";
+  diagnostics: CaptureDiagnostics;
+}
+
+export type TimegptInterceptorMessage =
+  | TimegptTimestampsMessage
+  | TimegptConversationsMessage
+  | TimegptConversationDetailMessage
+  | TimegptDiagnosticsMessage;
+
+export type TimegptContentMessage = TimegptDrainRequest | TimegptAckMessage;
+
+// Extension messages (popup → content script via chrome.tabs.sendMessage)
+export interface TimegptExportRequest {
+  type: "TIMEGPT_EXPORT";
+  format: ExportFormat;
+}
+
+export type TimegptExportResponse =
+  | { ok: true; filename: string; messageCount: number }
+  | { ok: false; error: string };
+
+export interface TimegptStatsRequest {
+  type: "TIMEGPT_STATS";
+}
+
+export type TimegptStatsResponse =
+  | { ok: true; stats: ConversationStats }
+  | { ok: false; error: string };
+
+// Timestamps with data vs. ones actually inserted into the page
+export interface PlacementHealth {
+  captured: number;
+  placed: number;
+  // Still waiting for their spot to render (e.g. streaming replies)
+  pending: number;
+  // Anchor strategy name → timestamps it placed
+  strategies: Record<string, number>;
+  // How many of those went to a fallback strategy
+  fallbacks: number;
+}
+
+export interface TimegptHealthRequest {
+  type: "TIMEGPT_HEALTH";
+}
+
+export interface TimegptHealthResponse {
+  ok: true;
+  enabled: { messages: boolean; sidebar: boolean };
+  messages: PlacementHealth;
+  sidebar: PlacementHealth;
+}
+
+export interface TimegptDiagnosticsRequest {
+  type: "TIMEGPT_DIAGNOSTICS";
+}
+
+export type TimegptDiagnosticsResponse =
+  | { ok: true; diagnostics: CaptureDiagnostics }
+  | { ok: false; error: string };
+
+// Keyboard commands declared in manifest.json, forwarded by the
+// background worker
+export type TimegptCommand =
+  | "cycle-format"
+  | "toggle-message-timestamps"
+  | "toggle-sidebar-timestamps"
+  | "show-all-timestamps";
+
+export interface TimegptCommandRequest {
+  type: "TIMEGPT_COMMAND";
+  command: TimegptCommand;
+}
+
+export type TimegptTabRequest =
+  | TimegptExportRequest
+  | TimegptStatsRequest
+  | TimegptHealthRequest
+  | TimegptDiagnosticsRequest
+  | TimegptCommandRequest;
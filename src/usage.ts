@@ -0,0 +1,166 @@
+// TimeGPT — Local usage history backed by chrome.storage.local.
+// Accumulates conversation and message times seen by the interceptor so the
+// dashboard can show activity over time. Never leaves the browser.
+
+import type {
+  ConversationTimestamp,
+  MessageTimestamp,
+  UsageHistory,
+  TimegptUsageClearRequest,
+  TimegptUsageWriteRequest,
+} from "./types";
+import { createZonedClock, isoToUnix, weekdayOf } from "./format";
+import type { ZoneOptions } from "./format";
+import { sendStorageRequest } from "./storage-requests";
+
+// Bump when the stored shape changes (older data is discarded).
+// Version 1 keyed messages by a prefix of their ID, which collided.
+export const USAGE_SCHEMA_VERSION = 2;
+
+// Oldest entries are dropped first once these are exceeded
+export const MAX_USAGE_CONVERSATIONS = 20000;
+export const MAX_USAGE_MESSAGES = 100000;
+
+const USAGE_KEY = "usageHistory";
+
+function emptyHistory(): UsageHistory {
+  return { version: USAGE_SCHEMA_VERSION, conversations: {}, messages: {} };
+}
+
+export async function loadUsageHistory(): Promise<UsageHistory> {
+  const stored = await chrome.storage.local.get(USAGE_KEY);
+  const history = stored[USAGE_KEY] as UsageHistory | undefined;
+  if (!history || history.version !== USAGE_SCHEMA_VERSION) return emptyHistory();
+  return history;
+}
+
+// Goes through the background worker so it can't race a tab's write
+export async function clearUsageHistory(): Promise<void> {
+  const request: TimegptUsageClearRequest = { type: "TIMEGPT_USAGE_CLEAR" };
+  await sendStorageRequest(request);
+}
+
+export async function removeUsageHistory(): Promise<void> {
+  await chrome.storage.local.remove(USAGE_KEY);
+}
+
+// Batches writes the same way the timestamp cache does, and sends them to
+// the background worker too (see background.ts)
+export function createUsageRecorder(delayMs = 5000) {
+  let pendingConversations: UsageHistory["conversations"] = {};
+  let pendingMessages: UsageHistory["messages"] = {};
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  function schedule(): void {
+    if (flushTimer !== null) return;
+    flushTimer = setTimeout(() => {
+      flushTimer = null;
+      // Also shown in the popup (see storage-requests.ts)
+      flush().catch((err) => console.warn("[TimeGPT] Usage history write failed:", err));
+    }, delayMs);
+  }
+
+  async function flush(): Promise<void> {
+    const request: TimegptUsageWriteRequest = {
+      type: "TIMEGPT_USAGE_WRITE",
+      conversations: pendingConversations,
+      messages: pendingMessages,
+    };
+    pendingConversations = {};
+    pendingMessages = {};
+    await sendStorageRequest(request);
+  }
+
+  return {
+    recordConversations(conversations: Record<string, ConversationTimestamp>): void {
+      for (const [id, info] of Object.entries(conversations)) {
+        const created = Math.round(isoToUnix(info.createTime));
+        const updated = info.updateTime ? Math.round(isoToUnix(info.updateTime)) : created;
+        if (!Number.isFinite(created)) continue;
+        pendingConversations[id] = [created, updated];
+      }
+      schedule();
+    },
+    recordMessages(timestamps: Record<string, MessageTimestamp>): void {
+      for (const [id, info] of Object.entries(timestamps)) {
+        // Only count what people actually sent or received
+        if (info.role !== "user" && info.role !== "assistant") continue;
+        pendingMessages[id] = Math.round(info.createTime);
+      }
+      schedule();
+    },
+  };
+}
+
+// Merges a tab's batch into the stored history. Only the background
+// worker calls this, one batch at a time.
+export async function writeUsage(request: TimegptUsageWriteRequest): Promise<void> {
+  const history = await loadUsageHistory();
+  Object.assign(history.conversations, request.conversations);
+  Object.assign(history.messages, request.messages);
+  trim(history.conversations, MAX_USAGE_CONVERSATIONS, (v) => v[0]);
+  trim(history.messages, MAX_USAGE_MESSAGES, (v) => v);
+  await chrome.storage.local.set({ [USAGE_KEY]: history });
+}
+
+function trim<T>(entries: Record<string, T>, limit: number, timeOf: (value: T) => number): void {
+  const ids = Object.keys(entries);
+  if (ids.length <= limit) return;
+  ids.sort((a, b) => timeOf(entries[a]) - timeOf(entries[b]));
+  for (const id of ids.slice(0, ids.length - limit)) {
+    delete entries[id];
+  }
+}
+
+// =============================================
+// AGGREGATION (for the dashboard)
+// =============================================
+
+export interface UsageSummary {
+  // "YYYY-MM-DD" (in the configured time zone) → count
+  conversationsPerDay: Map<string, number>;
+  messagesPerDay: Map<string, number>;
+  // [weekday 0=Sunday][hour] → message count
+  messagesByHour: number[][];
+  // "YYYY-MM" → totals
+  monthly: Map<string, { conversations: number; messages: number }>;
+}
+
+// Days, hours and months are those of `zone`, like the timestamps on the page
+export function summarizeUsage(history: UsageHistory, zone: ZoneOptions = {}): UsageSummary {
+  const clock = createZonedClock(zone);
+  const summary: UsageSummary = {
+    conversationsPerDay: new Map(),
+    messagesPerDay: new Map(),
+    messagesByHour: Array.from({ length: 7 }, () => new Array<number>(24).fill(0)),
+    monthly: new Map(),
+  };
+
+  const month = (key: string) => {
+    let totals = summary.monthly.get(key);
+    if (!totals) {
+      totals = { conversations: 0, messages: 0 };
+      summary.monthly.set(key, totals);
+    }
+    return totals;
+  };
+
+  for (const [created] of Object.values(history.conversations)) {
+    const { day } = clock(created);
+    increment(summary.conversationsPerDay, day);
+    month(day.slice(0, 7)).conversations++;
+  }
+
+  for (const time of Object.values(history.messages)) {
+    const { day, hour } = clock(time);
+    increment(summary.messagesPerDay, day);
+    summary.messagesByHour[weekdayOf(day)][hour]++;
+    month(day.slice(0, 7)).messages++;
+  }
+
+  return summary;
+}
+
+function increment(map: Map<string, number>, key: string): void {
+  map.set(key, (map.get(key) ?? 0) + 1);
+}
@@ -0,0 +1,479 @@
+// Runs each provider adapter's endpoints against recorded API responses and
+// reply streams (test/fixtures/<adapter>/) and checks what reaches the
+// capture sink. Run with `npm test`.
+
+const assert = require("node:assert/strict");
+const fs = require("node:fs");
+const path = require("node:path");
+const { describe, test } = require("node:test");
+const esbuild = require("esbuild");
+
+// Bundle the adapters the same way build.js does, but for Node
+const { outputFiles } = esbuild.buildSync({
+  entryPoints: [path.join(__dirname, "../src/providers/index.ts")],
+  bundle: true,
+  format: "cjs",
+  platform: "node",
+  target: "es2020",
+  write: false,
+  define: { __DEBUG__: "false" },
+});
+const bundled = { exports: {} };
+new Function("module", "exports", "require", outputFiles[0].text)(bundled, bundled.exports, require);
+const { PROVIDERS, providerForHost } = bundled.exports;
+
+const chatgpt = PROVIDERS.find((provider) => provider.id === "chatgpt");
+const chatgptLegacy = PROVIDERS.find((provider) => provider.id === "chatgpt-legacy");
+const claude = PROVIDERS.find((provider) => provider.id === "claude");
+
+function fixture(adapter, name) {
+  return fs.readFileSync(path.join(__dirname, "fixtures", adapter, name), "utf8");
+}
+
+// Records everything an extractor hands over. Stream parsers update the
+// entries they already sent, so each call is copied as it arrives.
+function createSink() {
+  const captured = { timestamps: {}, conversations: {}, details: [] };
+  const sink = {
+    putTimestamps(timestamps) {
+      Object.assign(captured.timestamps, structuredClone(timestamps));
+    },
+    putConversations(conversations) {
+      Object.assign(captured.conversations, structuredClone(conversations));
+    },
+    putDetail(detail) {
+      captured.details.push(structuredClone(detail));
+    },
+  };
+  return { captured, sink };
+}
+
+// Routes a response the way the interceptor does: the first JSON endpoint
+// whose URL matches handles it
+function runJson(provider, url, body) {
+  const endpoint = provider.jsonEndpoints.find((candidate) => candidate.matches(url));
+  assert.ok(endpoint, `no JSON endpoint matches ${url}`);
+  const json = JSON.parse(body);
+  assert.equal(endpoint.validate(json), null);
+  const { captured, sink } = createSink();
+  endpoint.extract(json, url, sink);
+  return { endpoint, captured };
+}
+
+// Times that aren't finite numbers would throw once they're formatted
+function assertFiniteNumbers(value, where = "captured") {
+  if (typeof value === "number") assert.ok(Number.isFinite(value), `${where} is ${value}`);
+  else if (value && typeof value === "object") {
+    for (const [key, item] of Object.entries(value)) assertFiniteNumbers(item, `${where}.${key}`);
+  }
+}
+
+// Feeds a recorded event stream through the adapter's parser, splitting
+// it into `data:` payloads like the interceptor does
+function runStream(provider, url, text, requestSentAt) {
+  assert.equal(provider.jsonEndpoints.some((endpoint) => endpoint.matches(url)), false);
+  assert.ok(provider.stream.matches(url), `stream doesn't match ${url}`);
+  const { captured, sink } = createSink();
+  const parser = provider.stream.open(requestSentAt, sink);
+  const unknown = [];
+
+  for (const part of text.split("\n\n")) {
+    const data = part
+      .split("\n")
+      .filter((line) => line.startsWith("data: "))
+      .map((line) => line.slice(6))
+      .pop();
+    if (!data) continue;
+    if (data === "[DONE]") {
+      parser.finish();
+      continue;
+    }
+    const event = JSON.parse(data);
+    const kind = provider.stream.classify(event);
+    if (kind) unknown.push(kind);
+    parser.event(event);
+  }
+  parser.finish();
+  return { captured, count: parser.captured(), unknown };
+}
+
+function unix(iso) {
+  return Date.parse(iso) / 1000;
+}
+
+// =============================================
+// CHATGPT
+// =============================================
+
+describe("chatgpt", () => {
+  const USER = "aaa2c0de-5f1e-4c8b-9a71-3e2d1c0b9a88";
+  const FIRST_REPLY = "c3d4e5f6-1111-4a2b-8c3d-4e5f6a7b8c9d";
+  const REGENERATED = "c3d4e5f6-2222-4a2b-8c3d-4e5f6a7b8c9d";
+  const SYSTEM = "1b2c3d4e-0001-4a5b-8c9d-aabbccddeeff";
+
+  test("is picked for chatgpt.com", () => {
+    assert.equal(providerForHost("chatgpt.com"), chatgpt);
+  });
+
+  test("conversation: message timestamps, versions and the visible branch", () => {
+    const { endpoint, captured } = runJson(
+      chatgpt,
+      "https://chatgpt.com/backend-api/conversation/6787a1b2-3c4d-8005-9e6f-7a8b9c0d1e2f",
+      fixture("chatgpt", "conversation.json")
+    );
+    assert.equal(endpoint.name, "conversation");
+
+    // The hidden system message has no create_time
+    assert.deepEqual(Object.keys(captured.timestamps).sort(), [USER, FIRST_REPLY, REGENERATED].sort());
+    assert.deepEqual(captured.timestamps[USER], {
+      createTime: 1736951400.512,
+      role: "user",
+      parentId: SYSTEM,
+      model: null,
+      tool: null,
+      regenerated: false,
+    });
+    assert.equal(captured.timestamps[FIRST_REPLY].model, "gpt-4o");
+    assert.equal(captured.timestamps[FIRST_REPLY].regenerated, false);
+    assert.equal(captured.timestamps[REGENERATED].model, "gpt-4o-mini");
+    assert.equal(captured.timestamps[REGENERATED].regenerated, true);
+    assert.equal(captured.timestamps[REGENERATED].parentId, USER);
+
+    assert.equal(captured.details.length, 1);
+    const [detail] = captured.details;
+    assert.equal(detail.id, "6787a1b2-3c4d-8005-9e6f-7a8b9c0d1e2f");
+    assert.equal(detail.title, "Weekend in Lisbon");
+    assert.equal(detail.createTime, 1736951400.123456);
+    assert.deepEqual(
+      detail.messages.map((m) => [m.id, m.role]),
+      [
+        [USER, "user"],
+        [REGENERATED, "assistant"],
+      ]
+    );
+    assert.equal(detail.messages[1].text, "Here's a relaxed plan: Belém on Saturday, Sintra on Sunday.");
+  });
+
+  test("conversation lists: ISO and unix times", () => {
+    const body = fixture("chatgpt", "conversations.json");
+    const urls = {
+      conversations: "https://chatgpt.com/backend-api/conversations?offset=0&limit=28&order=updated",
+      "project-conversations": "https://chatgpt.com/backend-api/gizmos/g-p-6787a0b1c2d3/conversations?cursor=0",
+      "gpt-conversations": "https://chatgpt.com/backend-api/gizmos/g-a1B2c3D4e/conversations?cursor=0",
+    };
+    for (const [name, url] of Object.entries(urls)) {
+      const { endpoint, captured } = runJson(chatgpt, url, body);
+      assert.equal(endpoint.name, name);
+      assert.deepEqual(captured.conversations, {
+        "6787a1b2-3c4d-8005-9e6f-7a8b9c0d1e2f": {
+          createTime: "2025-01-15T14:30:00.123456Z",
+          updateTime: "2025-01-15T14:32:40.654321Z",
+          title: "Weekend in Lisbon",
+        },
+        "6786f0e1-2a3b-8004-8c5d-6e7f8a9b0c1d": {
+          createTime: "2025-01-14T16:00:00.500Z",
+          updateTime: null,
+          title: "Sourdough hydration",
+        },
+      });
+    }
+  });
+
+  test("search results: keyed by conversation ID", () => {
+    const { endpoint, captured } = runJson(
+      chatgpt,
+      "https://chatgpt.com/backend-api/conversations/search?query=sourdough&cursor=",
+      fixture("chatgpt", "search.json")
+    );
+    assert.equal(endpoint.name, "search");
+    assert.deepEqual(captured.conversations, {
+      "6786f0e1-2a3b-8004-8c5d-6e7f8a9b0c1d": {
+        createTime: "2025-01-14T16:00:00.500Z",
+        updateTime: "2025-01-14T17:00:00.250Z",
+        title: "Sourdough hydration",
+      },
+    });
+  });
+
+  test("reply stream: new messages and response timing", () => {
+    const USER_2 = "e5f6a7b8-3333-4c9d-8e0f-1a2b3c4d5e6f";
+    const REPLY = "f7a8b9c0-4444-4d1e-8f2a-3b4c5d6e7f80";
+    const { captured, count, unknown } = runStream(
+      chatgpt,
+      "https://chatgpt.com/backend-api/f/conversation",
+      fixture("chatgpt", "stream.txt"),
+      1736951600
+    );
+    assert.deepEqual(unknown, []);
+    assert.equal(count, 2);
+    assert.deepEqual(captured.timestamps[USER_2], {
+      createTime: 1736951600.104,
+      role: "user",
+      parentId: REGENERATED,
+      model: null,
+      tool: null,
+      regenerated: false,
+    });
+
+    const reply = captured.timestamps[REPLY];
+    assert.equal(reply.createTime, 1736951602.377);
+    assert.equal(reply.role, "assistant");
+    assert.equal(reply.parentId, USER_2);
+    assert.equal(reply.model, "gpt-4o");
+    assert.equal(reply.timing.requestSentAt, 1736951600);
+    assert.equal(typeof reply.timing.firstTokenAt, "number");
+    assert.ok(reply.timing.completedAt >= reply.timing.firstTokenAt);
+  });
+
+  test("skips times and fields of the wrong type", () => {
+    const USER_ID = "b0000000-0000-4000-8000-000000000001";
+    const REPLY_ID = "b0000000-0000-4000-8000-000000000002";
+    const { captured } = runJson(
+      chatgpt,
+      "https://chatgpt.com/backend-api/conversation/6787a1b2-3c4d-8005-9e6f-7a8b9c0d1e2f",
+      fixture("chatgpt", "bad-timestamps.json")
+    );
+    assertFiniteNumbers(captured);
+    // The user message's create_time is a string
+    assert.deepEqual(Object.keys(captured.timestamps), [REPLY_ID]);
+    assert.equal(captured.timestamps[REPLY_ID].model, null);
+    const [detail] = captured.details;
+    assert.equal(detail.createTime, null);
+    assert.equal(detail.updateTime, null);
+    assert.deepEqual(
+      detail.messages.map((m) => [m.id, m.createTime]),
+      [
+        [USER_ID, null],
+        [REPLY_ID, 1736951410.25],
+      ]
+    );
+
+    const list = runJson(
+      chatgpt,
+      "https://chatgpt.com/backend-api/conversations?offset=0&limit=28&order=updated",
+      fixture("chatgpt", "bad-conversations.json")
+    );
+    assert.deepEqual(list.captured.conversations, {
+      "6787a1b2-3c4d-8005-9e6f-7a8b9c0d1e2f": {
+        createTime: "2025-01-15T14:30:00.123456Z",
+        updateTime: null,
+        title: "Weekend in Lisbon",
+      },
+    });
+  });
+
+  test("ignores a conversation's sub-resources", () => {
+    const base = "https://chatgpt.com/backend-api/conversation/68a1f0de-0000-8000-9000-00000000c0de";
+    const matching = (url) => chatgpt.jsonEndpoints.filter((endpoint) => endpoint.matches(url));
+    assert.deepEqual(matching(`${base}?tree=true`).map((endpoint) => endpoint.name), ["conversation"]);
+    assert.deepEqual(matching(`${base}/textdocs`), []);
+    assert.deepEqual(matching(`${base}/stream_status`), []);
+  });
+
+  test("rejects unexpected shapes and flags unknown events", () => {
+    const [conversation, conversations] = chatgpt.jsonEndpoints;
+    assert.equal(conversation.validate({ title: "x" }), "mapping missing");
+    assert.equal(conversations.validate({ items: "x" }), "items missing");
+    assert.equal(conversations.validate({ items: [{ id: "a" }] }), "no item has id and create_time");
+    assert.equal(chatgpt.stream.classify({ type: "brand_new_event" }), "type:brand_new_event");
+    assert.equal(chatgpt.stream.classify({ foo: 1 }), "untyped:foo");
+  });
+});
+
+// =============================================
+// CHATGPT (chat.openai.com)
+// =============================================
+
+describe("chatgpt-legacy", () => {
+  const ASSISTANT = "c5d6f00d-0000-4000-8000-000000000004";
+  const TOOL = "b3c4f00d-0000-4000-8000-000000000003";
+  const USER = "aaa2f00d-0000-4000-8000-000000000002";
+
+  test("is picked for chat.openai.com", () => {
+    assert.equal(providerForHost("chat.openai.com"), chatgptLegacy);
+  });
+
+  test("conversation: tool messages and the visible branch", () => {
+    const { captured } = runJson(
+      chatgptLegacy,
+      "https://chat.openai.com/backend-api/conversation/b8e1d2c3-4f5a-4b6c-9d7e-8f9a0b1c2d3e",
+      fixture("chatgpt-legacy", "conversation.json")
+    );
+    assert.equal(Object.keys(captured.timestamps).length, 3);
+    assert.equal(captured.timestamps[TOOL].tool, "python");
+    assert.equal(captured.timestamps[TOOL].model, null);
+    assert.equal(captured.timestamps[ASSISTANT].model, "gpt-4");
+    assert.equal(captured.timestamps[ASSISTANT].parentId, TOOL);
+
+    // The tool output has no text parts, so it isn't in the transcript
+    const [detail] = captured.details;
+    assert.deepEqual(
+      detail.messages.map((m) => m.id),
+      [USER, ASSISTANT]
+    );
+  });
+
+  test("conversation list", () => {
+    const { endpoint, captured } = runJson(
+      chatgptLegacy,
+      "https://chat.openai.com/backend-api/conversations?offset=0&limit=28",
+      fixture("chatgpt-legacy", "conversations.json")
+    );
+    assert.equal(endpoint.name, "conversations");
+    assert.deepEqual(captured.conversations["b8e1d2c3-4f5a-4b6c-9d7e-8f9a0b1c2d3e"], {
+      createTime: "2024-06-01T10:00:00.000000+00:00",
+      updateTime: "2024-06-01T10:00:42.750000+00:00",
+      title: "Regex for ISO dates",
+    });
+  });
+
+  test("reply stream: older URL and first-turn message format", () => {
+    const url = "https://chat.openai.com/backend-api/conversation";
+    assert.equal(chatgpt.stream.matches(url), false);
+    assert.ok(chatgptLegacy.stream.matches("https://chat.openai.com/backend-api/f/conversation"));
+
+    const REPLY = "e9f0f00d-0000-4000-8000-000000000006";
+    const { captured, count, unknown } = runStream(
+      chatgptLegacy,
+      url,
+      fixture("chatgpt-legacy", "stream.txt"),
+      1717236099
+    );
+    assert.deepEqual(unknown, []);
+    assert.equal(count, 2);
+    assert.equal(captured.timestamps["d7e8f00d-0000-4000-8000-000000000005"].role, "user");
+    const reply = captured.timestamps[REPLY];
+    assert.equal(reply.createTime, 1717236101.5);
+    assert.equal(reply.parentId, "d7e8f00d-0000-4000-8000-000000000005");
+    assert.equal(reply.model, "gpt-4");
+    assert.equal(reply.timing.requestSentAt, 1717236099);
+    assert.equal(typeof reply.timing.firstTokenAt, "number");
+    assert.equal(typeof reply.timing.completedAt, "number");
+  });
+});
+
+// =============================================
+// CLAUDE
+// =============================================
+
+describe("claude", () => {
+  const ORG = "1a2b3c4d-0000-4000-8000-00000000f00d";
+  const CONVERSATION = "0b6c1f3e-8a4d-4a7b-9d2e-5f1c2b3a4d5e";
+  const ROOT = "00000000-0000-4000-8000-000000000000";
+  const message = (n) => `01980000-0000-7000-8000-00000000000${n}`;
+
+  test("is picked for claude.ai", () => {
+    assert.equal(providerForHost("claude.ai"), claude);
+  });
+
+  test("conversation: ISO times, the current model and the visible branch", () => {
+    const { endpoint, captured } = runJson(
+      claude,
+      `https://claude.ai/api/organizations/${ORG}/chat_conversations/${CONVERSATION}` +
+        "?tree=True&rendering_mode=messages&render_all_tools=true",
+      fixture("claude", "conversation.json")
+    );
+    assert.equal(endpoint.name, "conversation");
+
+    // Every message, including the branch the edit replaced
+    assert.deepEqual(Object.keys(captured.timestamps).sort(), [1, 2, 3, 4].map(message));
+    assert.deepEqual(captured.timestamps[message(1)], {
+      createTime: unix("2025-01-15T14:30:00.412345Z"),
+      role: "user",
+      parentId: ROOT,
+      model: null,
+    });
+    assert.equal(captured.timestamps[message(2)].model, "claude-sonnet-4-20250514");
+    assert.equal(captured.timestamps[message(4)].parentId, message(3));
+
+    const [detail] = captured.details;
+    assert.equal(detail.id, CONVERSATION);
+    assert.equal(detail.title, "Lisbon weekend");
+    assert.equal(detail.updateTime, unix("2025-01-15T14:35:12.345678Z"));
+    assert.deepEqual(
+      detail.messages.map((m) => [m.id, m.role]),
+      [
+        [message(3), "user"],
+        [message(4), "assistant"],
+      ]
+    );
+    // Thinking blocks aren't part of the text
+    assert.equal(detail.messages[1].text, "Saturday in Belém, Sunday in Sintra.");
+  });
+
+  test("conversation lists: history and project chats", () => {
+    const body = fixture("claude", "conversations.json");
+    const urls = {
+      conversations: `https://claude.ai/api/organizations/${ORG}/chat_conversations?limit=30&starred=false`,
+      "project-conversations": `https://claude.ai/api/organizations/${ORG}/projects/9f8e7d6c-5b4a-4392-8170-6f5e4d3c2b1a/conversations`,
+    };
+    for (const [name, url] of Object.entries(urls)) {
+      const { endpoint, captured } = runJson(claude, url, body);
+      assert.equal(endpoint.name, name);
+      assert.deepEqual(captured.conversations, {
+        [CONVERSATION]: {
+          createTime: "2025-01-15T14:30:00.000000+00:00",
+          updateTime: "2025-01-15T14:35:12.345678+00:00",
+          title: "Lisbon weekend",
+        },
+        "5e4d3c2b-1a09-4f8e-b7d6-c5b4a3928170": {
+          createTime: "2025-01-14T08:00:00.000000+00:00",
+          updateTime: null,
+          title: null,
+        },
+      });
+    }
+  });
+
+  test("skips times and fields of the wrong type", () => {
+    const { captured } = runJson(
+      claude,
+      `https://claude.ai/api/organizations/${ORG}/chat_conversations/${CONVERSATION}?tree=True`,
+      fixture("claude", "bad-timestamps.json")
+    );
+    assertFiniteNumbers(captured);
+    // The reply's created_at doesn't parse
+    assert.deepEqual(Object.keys(captured.timestamps), [message(1)]);
+    const [detail] = captured.details;
+    assert.equal(detail.updateTime, null);
+    assert.deepEqual(
+      detail.messages.map((m) => [m.id, m.createTime, m.text]),
+      [
+        [message(1), unix("2025-01-15T14:30:00.412345Z"), "Plan a weekend in Lisbon"],
+        [message(2), null, "Saturday in Belém."],
+      ]
+    );
+  });
+
+  test("reply stream: the reply's ID, parent and timing", () => {
+    const base = `https://claude.ai/api/organizations/${ORG}/chat_conversations/${CONVERSATION}`;
+    assert.ok(claude.stream.matches(`${base}/retry_completion`));
+
+    const before = Date.now() / 1000;
+    const { captured, count, unknown } = runStream(
+      claude,
+      `${base}/completion`,
+      fixture("claude", "stream.txt"),
+      before
+    );
+    assert.deepEqual(unknown, []);
+    assert.equal(count, 1);
+    const reply = captured.timestamps[message(6)];
+    assert.equal(reply.role, "assistant");
+    assert.equal(reply.parentId, message(4));
+    assert.equal(reply.model, "claude-sonnet-4-20250514");
+    // No server time in the stream; timed by arrival
+    assert.ok(reply.createTime >= before);
+    assert.equal(reply.timing.requestSentAt, before);
+    assert.ok(reply.timing.firstTokenAt >= reply.createTime);
+    assert.ok(reply.timing.completedAt >= reply.timing.firstTokenAt);
+  });
+
+  test("rejects unexpected shapes and flags unknown events", () => {
+    const [conversation, conversations] = claude.jsonEndpoints;
+    assert.equal(conversation.validate([]), "response is not an object");
+    assert.equal(conversation.validate({ uuid: CONVERSATION }), "chat_messages missing");
+    assert.equal(conversations.validate({}), "response is not an array");
+    assert.equal(claude.stream.classify({ type: "tool_use_start" }), "type:tool_use_start");
+  });
+});